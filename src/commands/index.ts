@@ -0,0 +1,278 @@
+import { Command, flags } from "@oclif/command";
+import cli from "cli-ux";
+
+import * as paths from "../helpers/paths";
+import * as generator from "../helpers/generator";
+import * as watcher from "../helpers/watcher";
+import * as diff from "../helpers/diff";
+import * as report from "../helpers/report";
+import { createGenerator } from "../generate";
+import { Diagnostic, GenerateOptions, GenerateResult } from "../types";
+
+class MongooseTsgen extends Command {
+  static description =
+    "Generate a Typescript file containing Mongoose Schema typings.\nSpecify the directory of your Mongoose model definitions using `MODEL_PATH`. If left blank, all sub-directories will be searched for `models/*.ts` (ignores `index.ts` files). Files found are expected to export a Mongoose model.";
+
+  static flags = {
+    cache: flags.boolean({
+      description:
+        "Cache the output of each model file in `node_modules/.cache/mongoose-tsgen`, so that only model files that changed (along with the local files they import) are loaded again on the next run."
+    }),
+    check: flags.boolean({
+      description:
+        "Check that the output file is up to date with the current schemas rather than writing to it. Prints a diff and exits with a non-zero code if the file is out of date.",
+      exclusive: ["dry-run", "watch"]
+    }),
+    config: flags.string({
+      char: "c",
+      description:
+        "[default: ./] Path of `mtgen.config.json` (or `mtgen.config.js`, `mtgen.config.cjs`, `mtgen.config.ts`, `package.json`) or its root folder. CLI flag options will take precendence over settings in the config file."
+    }),
+    "dry-run": flags.boolean({
+      char: "d",
+      description: "Print output rather than writing to file."
+    }),
+    help: flags.help({ char: "h" }),
+    imports: flags.string({
+      char: "i",
+      description:
+        "Custom import statements to add to the output file. Useful if you use third-party types in your mongoose schema definitions. For multiple imports, specify this flag more than once.",
+      multiple: true
+    }),
+    "no-format": flags.boolean({
+      description: "Disable formatting generated files with prettier."
+    }),
+    output: flags.string({
+      char: "o",
+      description:
+        "[default: ./src/interfaces] Path of output file to write generated typings. If a folder path is passed, the generator will create a `mongoose.gen.ts` file in the specified folder."
+    }),
+    project: flags.string({
+      char: "p",
+      description: "[default: ./] Path of `tsconfig.json` or its root folder."
+    }),
+    "project-name": flags.string({
+      description:
+        "Name of the project to generate typings for, when multiple `projects` are defined in `mtgen.config.json`. If left blank, all projects are generated."
+    }),
+    debug: flags.boolean({
+      description: "Print debug information if anything isn't working"
+    }),
+    "no-mongoose": flags.boolean({
+      description:
+        "Don't generate types that reference mongoose (i.e. documents). Replace ObjectId with string."
+    }),
+    "no-populate-overload": flags.boolean({
+      description:
+        "Disable augmenting mongoose with Query.populate & Query.select overloads (the overloads narrow the return type of populated & projected documents queries)."
+    }),
+    report: flags.string({
+      description:
+        "Print a report listing, for each model, every type that fell back to `any` and why (i.e. Mixed schema types or methods not found in the model file).",
+      options: report.REPORT_FORMATS
+    }),
+    split: flags.boolean({
+      description:
+        "Generate one file per model in the output folder, along with a shared `helpers.gen.ts` file containing the populate helpers and an `index.ts` file re-exporting everything."
+    }),
+    strict: flags.boolean({
+      description:
+        "Fail when a model file has no models, a model initialization can't be parsed, or a method, static, query helper or virtual falls back to `any`. Specific items can be allowed using `strictAllow` in `mtgen.config.json`."
+    }),
+    watch: flags.boolean({
+      char: "w",
+      description:
+        "Watch model files and regenerate typings when they change. Only the changed models are reloaded on each run."
+    })
+  };
+
+  // path of mongoose models folder
+  static args = [{ name: "model_path" }];
+
+  private getConfig() {
+    const { flags: cliFlags, args } = this.parse(MongooseTsgen);
+
+    type FlagConfig = Omit<
+      typeof cliFlags,
+      "config" | "project-name" | "output" | "project" | "report"
+    > & {
+      output: string;
+      project: string;
+      report?: report.ReportFormat;
+      modelsPath?: string;
+      plugins?: GenerateOptions["plugins"];
+      strictAllow?: string[];
+      typeMappings?: GenerateOptions["typeMappings"];
+      readonlyLean?: boolean;
+    };
+    type ProjectConfig = Partial<FlagConfig> & { name?: string };
+
+    const { projects, ...configFileFlags }: ProjectConfig & { projects?: ProjectConfig[] } =
+      paths.getConfigFromFile(cliFlags.config, cliFlags.project);
+
+    const projectName = cliFlags["project-name"];
+
+    // remove "config" and "project-name" since theyre only used to select the config
+    delete cliFlags.config;
+    delete cliFlags["project-name"];
+
+    let projectConfigs: ProjectConfig[] = projects ?? [{}];
+    if (projectName) {
+      if (!projects)
+        throw new Error(
+          `--project-name was provided but no "projects" were found in mtgen.config.json.`
+        );
+
+      projectConfigs = projects.filter(project => project.name === projectName);
+      if (projectConfigs.length === 0)
+        throw new Error(`No project named "${projectName}" found in mtgen.config.json.`);
+    }
+
+    if (args.model_path && projectConfigs.length > 1)
+      throw new Error(
+        `MODEL_PATH can only be provided when running a single project. Use --project-name to select one.`
+      );
+
+    // settings at the root of the config file are shared by all projects, and CLI flags take precedence over both
+    const projectsFlags = projectConfigs.map(({ name, ...projectFlags }) => {
+      const flags = {
+        ...configFileFlags,
+        ...projectFlags,
+        ...cliFlags
+      };
+
+      // we cant set flags as `default` using the official oclif method since the defaults would overwrite flags provided in the config file.
+      // instead, well just set "output" and "project" as default manually if theyre still missing after merge with configFile.
+      flags.output = flags.output ?? "./src/interfaces";
+      flags.project = flags.project ?? "./";
+      flags.modelsPath = args.model_path ?? flags.modelsPath;
+
+      return { name, flags: flags as FlagConfig };
+    });
+
+    // watched projects keep their models registered on the mongoose instance shared by all projects, so models with
+    // the same name in other projects could not be loaded
+    if (projectsFlags.length > 1 && projectsFlags.some(({ flags }) => flags.watch))
+      throw new Error(
+        `--watch can only be used when running a single project. Use --project-name to select one.`
+      );
+
+    return projectsFlags;
+  }
+
+  private logDiagnostics(diagnostics: Diagnostic[], debug = false) {
+    diagnostics.forEach(({ level, message }) => {
+      if (level === "warning") this.warn(message);
+      else if (level === "info" || debug) this.log(message);
+    });
+  }
+
+  private writeFiles({ files }: GenerateResult) {
+    files.forEach(({ filePath, content }) => {
+      this.log(`Writing interfaces to ${filePath}`);
+      generator.saveFile({ genFilePath: filePath, content });
+    });
+    this.log("Writing complete 🐒");
+  }
+
+  // generates the typings for a single project, returns the paths of out of date files when using `--check`
+  private async runProject({
+    name,
+    flags
+  }: ReturnType<MongooseTsgen["getConfig"]>[number]): Promise<string[]> {
+    cli.action.start(
+      `Generating mongoose typescript definitions${name ? ` for project "${name}"` : ""}`
+    );
+
+    const modelsGenerator = createGenerator(flags);
+
+    let result: GenerateResult;
+    try {
+      result = modelsGenerator.generate();
+    } catch (error) {
+      modelsGenerator.close();
+      throw error;
+    }
+
+    cli.action.stop();
+    this.logDiagnostics(result.diagnostics, flags.debug);
+    if (flags.report) this.log(report.formatReport(result.report, flags.report));
+
+    // the generator is only needed again if we are watching for changes
+    if (!flags.watch) modelsGenerator.close();
+
+    if (flags.check) {
+      const outdatedFilePaths: string[] = [];
+      result.files.forEach(({ filePath, content }) => {
+        const fileDiff = diff.getFileDiff(filePath, content);
+        if (!fileDiff) return;
+
+        this.log(fileDiff);
+        outdatedFilePaths.push(filePath);
+      });
+
+      return outdatedFilePaths;
+    }
+
+    if (flags["dry-run"]) {
+      this.log("Dry run detected, generated interfaces will be printed to console:\n");
+      result.files.forEach(({ filePath, content }) => {
+        if (result.files.length > 1) this.log(`// ${filePath}\n`);
+        this.log(content);
+      });
+      return [];
+    }
+
+    this.writeFiles(result);
+
+    if (flags.watch) {
+      this.log(`Watching ${modelsGenerator.modelsPaths.length} model file(s) for changes...`);
+      watcher.watchFiles(modelsGenerator.modelsPaths, changedPaths => {
+        this.log(`Change detected in ${changedPaths.join(", ")}`);
+        try {
+          const updatedResult = modelsGenerator.update(changedPaths);
+          this.logDiagnostics(updatedResult.diagnostics, flags.debug);
+          if (flags.report) this.log(report.formatReport(updatedResult.report, flags.report));
+          this.writeFiles(updatedResult);
+        } catch (error) {
+          // keep watching, the user will likely fix the error and save again
+          this.warn(error as Error);
+        }
+      });
+    }
+
+    return [];
+  }
+
+  async run() {
+    try {
+      const projects = this.getConfig();
+
+      if (projects.some(({ flags }) => flags.debug)) this.log("Debug mode enabled");
+
+      const outdatedFilePaths: string[] = [];
+      for (const project of projects) {
+        // projects are generated one at a time, since they share the same mongoose instance & ts-node registration
+        // eslint-disable-next-line no-await-in-loop
+        outdatedFilePaths.push(...(await this.runProject(project)));
+      }
+
+      if (outdatedFilePaths.length > 0) {
+        throw new Error(
+          `${outdatedFilePaths.join(", ")} out of date. Run mtgen to regenerate the typings.`
+        );
+      }
+
+      if (projects.some(({ flags }) => flags.check)) {
+        this.log("Generated typings are up to date 🐒");
+        return;
+      }
+
+      if (!projects.some(({ flags }) => flags.watch || flags["dry-run"])) process.exit();
+    } catch (error) {
+      this.error(error as Error, { exit: 1 });
+    }
+  }
+}
+
+export = MongooseTsgen;
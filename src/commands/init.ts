@@ -0,0 +1,182 @@
+import { Command, flags } from "@oclif/command";
+import cli from "cli-ux";
+import path from "path";
+import * as fs from "fs";
+
+import * as paths from "../helpers/paths";
+import * as tsReader from "../helpers/tsReader";
+
+const CONFIG_FILE_NAME = "mtgen.config.json";
+const SCHEMA_PATH = "./node_modules/mongoose-tsgen/schemas/mtgen.config.schema.json";
+const DEFAULT_OUTPUT = "./src/interfaces";
+const DEFAULT_SCRIPT_NAME = "mtgen";
+
+const toRelativePath = (filePath: string) => {
+  const relativePath = path.relative(process.cwd(), filePath) || ".";
+  return relativePath.startsWith(".") ? relativePath : `./${relativePath}`;
+};
+
+// returns the models folder if all model files found by the default recursive search are in the same folder
+const detectModelsPath = () => {
+  let modelsPaths: string[];
+  try {
+    modelsPaths = paths.getModelsPaths();
+  } catch {
+    return undefined;
+  }
+
+  const folders = [...new Set(modelsPaths.map(modelPath => path.dirname(modelPath)))];
+  return folders.length === 1 ? toRelativePath(folders[0]) : undefined;
+};
+
+const detectTsConfig = () => {
+  try {
+    return toRelativePath(tsReader.findTsConfig("./"));
+  } catch {
+    // prefer the root tsconfig when multiple are found
+    return fs.existsSync("tsconfig.json") ? "./tsconfig.json" : undefined;
+  }
+};
+
+class Init extends Command {
+  static description =
+    "Create a `mtgen.config.json` file for your project.\nModel files and `tsconfig.json` are detected automatically. Values not provided as flags are prompted for, unless `--yes` is passed (or the terminal is not interactive) in which case the detected values are used. The npm script is only prompted for when some of the other values aren't provided as flags.";
+
+  static flags = {
+    force: flags.boolean({
+      char: "f",
+      description: "Overwrite an existing config file."
+    }),
+    help: flags.help({ char: "h" }),
+    "models-path": flags.string({
+      char: "m",
+      description:
+        "Path of your models folder. If left blank, detected using the same search as `mtgen` (`**/models/*.ts`)."
+    }),
+    output: flags.string({
+      char: "o",
+      description: `Path of output file or folder to write generated typings. [default: ${DEFAULT_OUTPUT}]`
+    }),
+    project: flags.string({
+      char: "p",
+      description: "Path of `tsconfig.json`. If left blank, detected from the current folder."
+    }),
+    script: flags.string({
+      char: "s",
+      description: `Add an npm script with the given name to package.json that runs mtgen (i.e. \`--script=${DEFAULT_SCRIPT_NAME}\`).`
+    }),
+    yes: flags.boolean({
+      char: "y",
+      description: "Use detected or default values rather than prompting for them."
+    })
+  };
+
+  private async resolveValue({
+    flagValue,
+    detectedValue,
+    question,
+    isInteractive
+  }: {
+    flagValue?: string;
+    detectedValue?: string;
+    question: string;
+    isInteractive: boolean;
+  }) {
+    if (flagValue !== undefined) return flagValue;
+    if (!isInteractive) return detectedValue;
+
+    const answer: string = await cli.prompt(question, {
+      default: detectedValue,
+      required: detectedValue === undefined
+    });
+    return answer.trim() || detectedValue;
+  }
+
+  private addNpmScript(scriptName: string) {
+    const packageJsonPath = path.join(process.cwd(), "package.json");
+    if (!fs.existsSync(packageJsonPath)) {
+      this.warn(`No package.json found in ${process.cwd()}, skipping npm script.`);
+      return;
+    }
+
+    const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf8"));
+    packageJson.scripts = { ...packageJson.scripts, [scriptName]: "mtgen" };
+    fs.writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2) + "\n");
+
+    this.log(`Added "${scriptName}" script to package.json`);
+  }
+
+  async run() {
+    const { flags } = this.parse(Init);
+
+    try {
+      const existingConfigFileName = paths.CONFIG_FILE_NAMES.filter(
+        fileName => fileName !== "package.json"
+      ).find(fileName => fs.existsSync(fileName));
+
+      if (existingConfigFileName && !flags.force) {
+        throw new Error(
+          `${existingConfigFileName} already exists. Use --force to overwrite it with a new ${CONFIG_FILE_NAME}.`
+        );
+      }
+
+      const isInteractive = !flags.yes && Boolean(process.stdin.isTTY);
+
+      const modelsPath = await this.resolveValue({
+        flagValue: flags["models-path"],
+        detectedValue: detectModelsPath(),
+        question: "Path of your models folder (leave blank to search for `**/models/*.ts`)",
+        isInteractive
+      });
+      const project = await this.resolveValue({
+        flagValue: flags.project,
+        detectedValue: detectTsConfig(),
+        question: "Path of your tsconfig.json",
+        isInteractive
+      });
+      const output = await this.resolveValue({
+        flagValue: flags.output,
+        detectedValue: DEFAULT_OUTPUT,
+        question: "Path of the generated typings file or folder",
+        isInteractive
+      });
+
+      // when every other value was given as a flag, the command is likely scripted so we don't prompt for the script either
+      const allValuesFromFlags = [flags["models-path"], flags.project, flags.output].every(
+        value => value !== undefined
+      );
+
+      let scriptName = flags.script;
+      if (scriptName === undefined && isInteractive && !allValuesFromFlags) {
+        const shouldAddScript = await cli.confirm(
+          `Add a "${DEFAULT_SCRIPT_NAME}" npm script to package.json? (y/n)`
+        );
+        if (shouldAddScript) scriptName = DEFAULT_SCRIPT_NAME;
+      }
+
+      const config = {
+        $schema: SCHEMA_PATH,
+        ...(modelsPath ? { modelsPath } : {}),
+        ...(project ? { project } : {}),
+        output
+      };
+
+      fs.writeFileSync(CONFIG_FILE_NAME, JSON.stringify(config, null, 2) + "\n");
+      this.log(`Created ${CONFIG_FILE_NAME}`);
+
+      if (scriptName) this.addNpmScript(scriptName);
+
+      this.log(
+        `\nRun \`${
+          scriptName ? `npm run ${scriptName}` : "npx mtgen"
+        }\` to generate your typings, then pass them to your schemas and models:\n\n` +
+          `  const UserSchema: UserSchema = new Schema({ ... });\n` +
+          `  export const User = mongoose.model<UserDocument, UserModel>("User", UserSchema);\n`
+      );
+    } catch (error) {
+      this.error(error as Error, { exit: 1 });
+    }
+  }
+}
+
+export = Init;
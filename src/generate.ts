@@ -0,0 +1,360 @@
+import path from "path";
+import _ from "lodash";
+import { Project, SourceFile } from "ts-morph";
+
+import * as parser from "./helpers/parser";
+import * as tsReader from "./helpers/tsReader";
+import * as paths from "./helpers/paths";
+import * as formatter from "./helpers/formatter";
+import * as generator from "./helpers/generator";
+import * as plugins from "./helpers/plugins";
+import * as report from "./helpers/report";
+import * as strict from "./helpers/strict";
+import * as cache from "./helpers/cache";
+import * as typeMappings from "./helpers/typeMappings";
+import { Diagnostic, GenerateOptions, GenerateResult, GeneratedFile, ModelTypes } from "./types";
+
+const DEFAULT_OUTPUT = "./src/interfaces";
+const DEFAULT_PROJECT = "./";
+
+// options changing the generated output, any change invalidates the cache
+const OUTPUT_OPTIONS: (keyof GenerateOptions)[] = [
+  "output",
+  "imports",
+  "no-format",
+  "no-mongoose",
+  "no-populate-overload",
+  "split",
+  "typeMappings",
+  "readonlyLean"
+];
+
+// Creates a generator which holds on to the loaded schemas, model types and ts-morph project between runs, so that
+// `update` only needs to reload the models from files that changed. Call `close` once done to unload the models and
+// remove the path alias hooks registered for the user's tsconfig.
+export const createGenerator = (options: GenerateOptions = {}) => {
+  const output = options.output ?? DEFAULT_OUTPUT;
+  // when splitting output, `output` is the folder containing every generated file
+  const genPath = options.split ?
+    paths.cleanOutputFolderPath(output) :
+    paths.cleanOutputPath(output);
+  const modelsPaths = paths.getModelsPaths(options.modelsPath);
+  const noMongoose = Boolean(options["no-mongoose"]);
+
+  // models already loaded before this generator was created (i.e. by the user's own code) are left loaded on `close`
+  const preloadedModelsPaths = modelsPaths.filter(modelsPath => require.cache[modelsPath]);
+
+  const cleanupTs = tsReader.registerUserTs(options.project ?? DEFAULT_PROJECT);
+  const project = tsReader.createProject();
+
+  // loaded after registering the user's tsconfig, so that plugins can be written in TS
+  const loadedPlugins = plugins.loadPlugins(options.plugins);
+  // `typeMappings` from the config take precedence over plugins
+  const typeMappingsPlugin = typeMappings.createTypeMappingsPlugin(options.typeMappings);
+  const typeMapper = plugins.createTypeMapper(
+    typeMappingsPlugin ? [typeMappingsPlugin, ...loadedPlugins] : loadedPlugins
+  );
+  const imports = _.uniq([
+    ...(options.imports ?? []),
+    ...typeMappings.getTypeMappingsImports(options.typeMappings)
+  ]);
+
+  const schemas: parser.LoadedSchemas = {};
+  const modelTypes: ModelTypes = {};
+  const modelFilePaths: { [modelName: string]: string } = {};
+  const baseModelNames: { [modelName: string]: string } = {};
+  const fileOutputs: { [modelPath: string]: cache.ModelFileOutput } = {};
+
+  // plugins can depend on anything (and `afterGenerate` receives every schema), so their output can't be cached
+  const shouldCache = Boolean(options.cache) && loadedPlugins.length === 0;
+  const modelsCache = shouldCache ?
+    cache.createCache({
+      outputPath: genPath,
+      tsConfigPath: tsReader.findTsConfig(options.project ?? DEFAULT_PROJECT),
+      settings: {
+        ..._.pick(options, OUTPUT_OPTIONS),
+        prettierConfig: options["no-format"] ? undefined : formatter.getPrettierConfig()
+      }
+    }) :
+    undefined;
+  let fileHashes: { [modelPath: string]: string } = {};
+
+  // the files (other than `excludedPaths`) whose last output includes one of `baseModelNames` or their discriminators
+  const getDiscriminatedPaths = (baseModelNames: string[], excludedPaths: string[]) =>
+    modelsPaths.filter(
+      modelPath =>
+        !excludedPaths.includes(modelPath) &&
+        fileOutputs[modelPath]?.models.some(
+          ({ modelName, baseModelName }) =>
+            baseModelNames.includes(modelName) || _.includes(baseModelNames, baseModelName)
+        )
+    );
+
+  const loadFiles = (modelsPathsToLoad: string[]) => {
+    // the models of these files are reattributed as they are loaded again
+    Object.keys(modelFilePaths).forEach(modelName => {
+      if (modelsPathsToLoad.includes(modelFilePaths[modelName])) delete modelFilePaths[modelName];
+    });
+
+    return modelsPathsToLoad.map(modelPath => {
+      const diagnostics: Diagnostic[] = [];
+      const fileSchemas = parser.loadSchemas(
+        [modelPath],
+        diagnostics,
+        modelFilePaths,
+        baseModelNames
+      );
+      Object.assign(schemas, fileSchemas);
+
+      // only get model types (methods, statics, queries & virtuals) if user does not specify `noMongoose`
+      if (!noMongoose) {
+        Object.assign(
+          modelTypes,
+          tsReader.getModelTypes([modelPath], undefined, project, diagnostics)
+        );
+      }
+
+      return { modelPath, diagnostics, fileSchemas };
+    });
+  };
+
+  // loads the models exported by each file and generates their declarations. `removedOutputs` are the outputs of
+  // model files that no longer exist.
+  const processFiles = (
+    modelsPathsToProcess: string[],
+    removedOutputs: cache.ModelFileOutput[] = []
+  ) => {
+    // discriminators are included in the unions of their base model, whose file is processed again if it's another
+    // file, along with the files declaring its other discriminators. The discriminators previously output by these
+    // files may have been removed, so they're included too.
+    const previousBaseModelNames = _.flatMap(
+      [...modelsPathsToProcess.map(modelPath => fileOutputs[modelPath]), ...removedOutputs],
+      output => output?.models ?? []
+    ).map(({ baseModelName }) => baseModelName);
+
+    // every file is loaded before generating any declarations, so that discriminators declared in other files are
+    // registered on their base model
+    const loadedFiles = loadFiles(modelsPathsToProcess);
+
+    const currentBaseModelNames = _.flatMap(loadedFiles, ({ fileSchemas }) =>
+      Object.keys(fileSchemas).map(modelName => baseModelNames[modelName])
+    );
+    const discriminatedPaths = getDiscriminatedPaths(
+      _.compact([...previousBaseModelNames, ...currentBaseModelNames]),
+      modelsPathsToProcess
+    );
+    loadedFiles.push(...loadFiles(discriminatedPaths));
+
+    loadedFiles.forEach(({ modelPath, diagnostics, fileSchemas }) => {
+      fileOutputs[modelPath] = {
+        diagnostics,
+        models: Object.keys(fileSchemas).map(modelName => {
+          const modelSchemas = { [modelName]: fileSchemas[modelName] };
+          return {
+            modelName,
+            declarations: generator.generateModelDeclarations({
+              modelName,
+              schema: fileSchemas[modelName],
+              modelTypes,
+              noMongoose,
+              typeMapper,
+              readonlyLean: options.readonlyLean
+            }),
+            report: report.getReport({
+              schemas: modelSchemas,
+              modelTypes,
+              modelFilePaths,
+              noMongoose
+            })[0],
+            baseModelName: baseModelNames[modelName]
+          };
+        })
+      };
+    });
+  };
+
+  const formatFile = (sourceFile: SourceFile): GeneratedFile => {
+    const fullText = sourceFile.getFullText();
+    return {
+      filePath: path.relative(process.cwd(), sourceFile.getFilePath()),
+      content: options["no-format"] ? fullText : formatter.formatContent(fullText)
+    };
+  };
+
+  const buildFile = (modelOutputs: cache.ModelOutput[]) => {
+    const sourceFile = generator.generateFileFromDeclarations({
+      sourceFile: generator.createSourceFile(genPath),
+      declarations: modelOutputs.map(({ declarations }) => declarations),
+      imports,
+      noMongoose
+    });
+
+    plugins.runAfterGenerate(loadedPlugins, { sourceFile, schemas, modelTypes, noMongoose });
+
+    if (!noMongoose) {
+      // add populate helpers
+      generator.addPopulateHelpers(sourceFile);
+      // add mongoose.Query.populate overloads
+      if (!options["no-populate-overload"]) generator.overloadQueryPopulate(sourceFile);
+    }
+
+    return [sourceFile];
+  };
+
+  const buildSplitFiles = (modelOutputs: cache.ModelOutput[]) => {
+    const outputProject = new Project();
+
+    const sourceFiles = modelOutputs.map(({ modelName, declarations }) => {
+      const sourceFile = generator.generateFileFromDeclarations({
+        sourceFile: generator.createSourceFile(
+          path.join(genPath, generator.getModelFileName(modelName)),
+          outputProject
+        ),
+        declarations: [declarations],
+        imports,
+        noMongoose
+      });
+
+      plugins.runAfterGenerate(loadedPlugins, {
+        sourceFile,
+        schemas: { [modelName]: schemas[modelName] },
+        modelTypes,
+        noMongoose
+      });
+      return sourceFile;
+    });
+
+    if (!noMongoose) {
+      sourceFiles.push(
+        generator.createHelpersFile({
+          folderPath: genPath,
+          project: outputProject,
+          noPopulateOverload: options["no-populate-overload"]
+        })
+      );
+    }
+
+    generator.addCrossFileImports(sourceFiles);
+
+    return [
+      ...sourceFiles,
+      generator.createBarrelFile({ folderPath: genPath, project: outputProject, sourceFiles })
+    ];
+  };
+
+  // `cachedFiles` are the files generated on the previous run, if no model file has changed since
+  const build = (diagnostics: Diagnostic[], cachedFiles?: GeneratedFile[]): GenerateResult => {
+    if (noMongoose) {
+      diagnostics.push({
+        level: "info",
+        message: "Skipping TS model parsing and sourceFile model type replacement"
+      });
+    }
+
+    const currentOutputs = modelsPaths
+      .filter(modelPath => fileOutputs[modelPath])
+      .map(modelPath => fileOutputs[modelPath]);
+    currentOutputs.forEach(output => diagnostics.push(...output.diagnostics));
+
+    // a model can be output by multiple files if it was re-exported by a file that changed since the last run
+    const modelOutputs = _.uniqBy(_.flatMap(currentOutputs, output => output.models), "modelName");
+    const modelsReport = modelOutputs.map(modelOutput => modelOutput.report);
+
+    if (options.strict) {
+      strict.checkStrict({ diagnostics, report: modelsReport, allow: options.strictAllow });
+    }
+
+    const files =
+      cachedFiles ??
+      (options.split ? buildSplitFiles(modelOutputs) : buildFile(modelOutputs)).map(formatFile);
+
+    if (modelsCache) {
+      const isCacheWritten = modelsCache.write({
+        hashes: _.pick(fileHashes, modelsPaths),
+        outputs: _.pick(fileOutputs, modelsPaths),
+        files
+      });
+      if (!isCacheWritten)
+        diagnostics.push({ level: "debug", message: "cache: Could not write the cache file" });
+    }
+
+    return { files, diagnostics, report: modelsReport };
+  };
+
+  return {
+    modelsPaths,
+    // load all models and generate the output
+    generate: () => {
+      const diagnostics: Diagnostic[] = [];
+      if (options.cache && !modelsCache) {
+        diagnostics.push({ level: "info", message: "Caching is disabled when using plugins" });
+      }
+
+      if (!modelsCache) {
+        processFiles(modelsPaths);
+        return build(diagnostics);
+      }
+
+      // only the model files that changed since the last run need to be loaded
+      fileHashes = modelsCache.hashFiles(modelsPaths);
+      const cached = modelsCache.read(fileHashes);
+      Object.assign(fileOutputs, cached.outputs);
+
+      const changedPaths = modelsPaths.filter(modelPath => !cached.outputs[modelPath]);
+      diagnostics.push({
+        level: "debug",
+        message: `cache: ${modelsPaths.length - changedPaths.length} of ${
+          modelsPaths.length
+        } model file(s) unchanged`
+      });
+
+      processFiles(changedPaths, cached.removedOutputs);
+      return build(diagnostics, cached.files);
+    },
+    // reload the models from `changedPaths` and regenerate the output
+    update: (changedPaths: string[]) => {
+      const diagnostics: Diagnostic[] = [];
+
+      const unloadedModelNames = parser.unloadSchemas(changedPaths);
+      if (modelsCache) Object.assign(fileHashes, modelsCache.hashFiles(changedPaths));
+      processFiles(changedPaths);
+
+      // forget the models that were removed from the changed files
+      unloadedModelNames.forEach(modelName => {
+        if (modelFilePaths[modelName]) return;
+        delete schemas[modelName];
+        delete modelTypes[modelName];
+      });
+
+      return build(diagnostics);
+    },
+    // unload the models so that other projects can register models with the same names
+    close: () => {
+      parser.unloadSchemas(modelsPaths.filter(p => !preloadedModelsPaths.includes(p)));
+      cleanupTs?.();
+    }
+  };
+};
+
+/**
+ * Generate Mongoose typings without writing them to disk.
+ *
+ * ```
+ * import { generate } from "mongoose-tsgen";
+ *
+ * const { files, diagnostics } = await generate({ modelsPath: "./src/models" });
+ * ```
+ *
+ * This never writes to the console or exits the process; any warnings are returned as `diagnostics`.
+ *
+ * @param {GenerateOptions} options the same options as the CLI flags & `mtgen.config.json`
+ * @returns {Promise<GenerateResult>} the path & generated content of each output file, and any diagnostics
+ */
+export const generate = async (options: GenerateOptions = {}): Promise<GenerateResult> => {
+  const modelsGenerator = createGenerator(options);
+  try {
+    return modelsGenerator.generate();
+  } finally {
+    modelsGenerator.close();
+  }
+};
@@ -0,0 +1,164 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import mkdirp from "mkdirp";
+import { ts } from "ts-morph";
+
+import { Diagnostic, GeneratedFile, ModelReport } from "../types";
+
+export const CACHE_FOLDER_PATH = path.join("node_modules", ".cache", "mongoose-tsgen");
+
+/**
+ * The generated declarations & report of a single model
+ */
+export type ModelOutput = {
+  modelName: string;
+  declarations: string;
+  report: ModelReport;
+  /** The base model of a discriminator, whose declarations include the discriminator in its unions */
+  baseModelName?: string;
+};
+
+/**
+ * Everything generated from a single model file, reused until the file (or a local file it imports) changes
+ */
+export type ModelFileOutput = {
+  diagnostics: Diagnostic[];
+  models: ModelOutput[];
+};
+
+type FileHashes = { [modelPath: string]: string };
+type ModelFileOutputs = { [modelPath: string]: ModelFileOutput };
+
+type CacheContent = {
+  key: string;
+  hashes: FileHashes;
+  outputs: ModelFileOutputs;
+  /** The files generated on the last run, valid if no model file has changed since */
+  files: GeneratedFile[];
+};
+
+const hash = (...contents: string[]) => {
+  const hasher = crypto.createHash("sha1");
+  contents.forEach(content => hasher.update(content).update("\0"));
+  return hasher.digest("hex");
+};
+
+// Returns a function hashing a model file along with every local file it imports, directly or transitively. Imports
+// are resolved using the tsconfig's compiler options, so path aliases are followed. Files in `ignoredPath` are skipped
+// since model files usually import the generated types, which would otherwise invalidate the cache on every run.
+const createFileHasher = (tsConfigPath: string, ignoredPath: string) => {
+  const { config } = ts.readConfigFile(tsConfigPath, ts.sys.readFile);
+  const { options: compilerOptions } = ts.parseJsonConfigFileContent(
+    config ?? {},
+    ts.sys,
+    path.dirname(tsConfigPath)
+  );
+
+  const isIgnored = (filePath: string) =>
+    filePath === ignoredPath || filePath.startsWith(ignoredPath + path.sep);
+
+  return (modelPath: string) => {
+    const visitedPaths = new Set<string>();
+    const contents: string[] = [];
+
+    const visit = (filePath: string) => {
+      if (visitedPaths.has(filePath) || isIgnored(filePath)) return;
+      visitedPaths.add(filePath);
+
+      const content = fs.readFileSync(filePath, "utf8");
+      contents.push(filePath, content);
+
+      ts.preProcessFile(content, true, true).importedFiles.forEach(({ fileName }) => {
+        const { resolvedModule } = ts.resolveModuleName(
+          fileName,
+          filePath,
+          compilerOptions,
+          ts.sys
+        );
+        if (resolvedModule && !resolvedModule.isExternalLibraryImport)
+          visit(path.resolve(resolvedModule.resolvedFileName));
+      });
+    };
+
+    visit(path.resolve(modelPath));
+    return hash(...contents);
+  };
+};
+
+// Creates an on-disk cache of the generated output, stored in `node_modules/.cache/mongoose-tsgen`. The cache is
+// invalidated if `settings` (any option affecting the output), the tsconfig or the mongoose & mongoose-tsgen versions
+// change. Otherwise, the output of each model file is reused as long as the file and its local imports are unchanged.
+export const createCache = ({
+  outputPath,
+  tsConfigPath,
+  settings
+}: {
+  outputPath: string;
+  tsConfigPath: string;
+  settings: unknown;
+}) => {
+  const absoluteOutputPath = path.resolve(outputPath);
+  // one cache file per output, so that multiple projects don't overwrite each other's cache
+  const cacheFilePath = path.join(CACHE_FOLDER_PATH, `${hash(absoluteOutputPath)}.json`);
+
+  const key = hash(
+    require("../../package.json").version,
+    require("mongoose/package.json").version,
+    fs.readFileSync(tsConfigPath, "utf8"),
+    JSON.stringify(settings)
+  );
+
+  const hashFile = createFileHasher(tsConfigPath, absoluteOutputPath);
+
+  const readCacheFile = (): CacheContent | undefined => {
+    try {
+      const content: CacheContent = JSON.parse(fs.readFileSync(cacheFilePath, "utf8"));
+      return content.key === key ? content : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+
+  return {
+    hashFiles: (modelsPaths: string[]) => {
+      const hashes: FileHashes = {};
+      modelsPaths.forEach(modelPath => {
+        hashes[modelPath] = hashFile(modelPath);
+      });
+      return hashes;
+    },
+    // returns the cached output of each model file whose hash is unchanged, along with the generated files if no
+    // model file was added, removed or changed. The output of removed model files is returned separately.
+    read: (hashes: FileHashes) => {
+      const cached = readCacheFile();
+      const outputs: ModelFileOutputs = {};
+      if (!cached) return { outputs, removedOutputs: [] };
+
+      Object.keys(hashes).forEach(modelPath => {
+        if (cached.hashes[modelPath] === hashes[modelPath] && cached.outputs[modelPath])
+          outputs[modelPath] = cached.outputs[modelPath];
+      });
+
+      const isUnchanged =
+        Object.keys(outputs).length === Object.keys(hashes).length &&
+        Object.keys(cached.hashes).length === Object.keys(hashes).length;
+
+      const removedOutputs = Object.keys(cached.outputs)
+        .filter(modelPath => !(modelPath in hashes))
+        .map(modelPath => cached.outputs[modelPath]);
+
+      return { outputs, removedOutputs, files: isUnchanged ? cached.files : undefined };
+    },
+    // failing to write the cache (i.e. in a read-only file system) only means the next run won't be cached
+    write: (content: Omit<CacheContent, "key">) => {
+      try {
+        mkdirp.sync(path.dirname(cacheFilePath));
+        fs.writeFileSync(cacheFilePath, JSON.stringify({ key, ...content }));
+        return true;
+      } catch {
+        return false;
+      }
+    }
+  };
+};
@@ -0,0 +1,46 @@
+import path from "path";
+import Ajv2019, { ErrorObject } from "ajv/dist/2019";
+
+// resolves to the repo root from both `src/helpers` and the compiled `lib/helpers`
+export const CONFIG_SCHEMA_PATH = path.join(
+  __dirname,
+  "..",
+  "..",
+  "schemas",
+  "mtgen.config.schema.json"
+);
+
+// i.e. `/projects/0/imports` -> `projects[0].imports`
+const formatInstancePath = (instancePath: string) =>
+  instancePath
+    .slice(1)
+    .split("/")
+    .map(segment => (/^\d+$/.test(segment) ? `[${segment}]` : `.${segment}`))
+    .join("")
+    .replace(/^\./, "");
+
+const formatError = (error: ErrorObject) => {
+  const location = error.instancePath ? `"${formatInstancePath(error.instancePath)}"` : "";
+
+  if (error.keyword === "unevaluatedProperties" || error.keyword === "additionalProperties") {
+    const key = error.params.unevaluatedProperty ?? error.params.additionalProperty;
+    return `Unknown key "${key}"${location ? ` in ${location}` : ""}`;
+  }
+
+  return `${location || "Config"} ${error.message}`;
+};
+
+let validate: ReturnType<Ajv2019["compile"]> | undefined;
+
+// Validate a loaded config against the published JSON schema. Throws an error listing every unknown or mistyped key.
+export const validateConfig = (config: unknown, source: string) => {
+  if (!validate) {
+    const ajv = new Ajv2019({ allErrors: true });
+    validate = ajv.compile(require(CONFIG_SCHEMA_PATH));
+  }
+
+  if (validate(config)) return;
+
+  const errors = (validate.errors ?? []).map(error => `  - ${formatError(error)}`);
+  throw new Error(`Invalid mongoose-tsgen config in ${source}:\n${errors.join("\n")}`);
+};
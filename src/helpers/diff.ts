@@ -0,0 +1,19 @@
+import fs from "fs";
+import { createTwoFilesPatch } from "diff";
+
+// Compare the expected content of a generated file with the file currently on disk.
+// Returns a unified diff if they differ, or null if the file is up to date.
+export const getFileDiff = (filePath: string, expectedContent: string) => {
+  const currentContent = fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf8") : "";
+
+  if (currentContent === expectedContent) return null;
+
+  return createTwoFilesPatch(
+    filePath,
+    filePath,
+    currentContent,
+    expectedContent,
+    "current",
+    "generated"
+  );
+};
@@ -1,4 +1,3 @@
-import fs from "fs";
 import prettier from "prettier";
 
 // I removed ESLINT usage since it doesnt seem to add much value and adds room for bugs.
@@ -7,20 +6,8 @@ import prettier from "prettier";
 
 // import { ESLint } from "eslint";
 
-// NOTE: this could be sped up by formatting the generated file string prior to writing (no need to write file then read it again here and re-write it)
-const prettifyFiles = (filePaths: string[]) => {
-  const config =
-    prettier.resolveConfig.sync(process.cwd(), { useCache: true, editorconfig: true }) ?? {};
-
-  filePaths.forEach((filePath: string) => {
-    const ogContent = fs.readFileSync(filePath);
-    const formattedContent = prettier.format(ogContent.toString(), {
-      ...config,
-      parser: "typescript"
-    });
-    fs.writeFileSync(filePath, formattedContent);
-  });
-};
+export const getPrettierConfig = () =>
+  prettier.resolveConfig.sync(process.cwd(), { useCache: true, editorconfig: true }) ?? {};
 
 // const fixFiles = async (_filePaths: string[]) => {
 // const eslint = new ESLint({ fix: true });
@@ -28,7 +15,10 @@ const prettifyFiles = (filePaths: string[]) => {
 // await ESLint.outputFixes(results);
 // };
 
-export const format = async (filePaths: string[]) => {
-  prettifyFiles(filePaths);
-  // await fixFiles(filePaths);
+// formats generated file content using the user's prettier config (if any)
+export const formatContent = (content: string) => {
+  return prettier.format(content, {
+    ...getPrettierConfig(),
+    parser: "typescript"
+  });
 };
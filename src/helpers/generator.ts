@@ -1,8 +1,19 @@
-import { Project, SourceFile, SyntaxKind, PropertySignature } from "ts-morph";
+import {
+  CodeBlockWriter,
+  Project,
+  SourceFile,
+  SyntaxKind,
+  PropertySignature,
+  Node
+} from "ts-morph";
 import mongoose from "mongoose";
+import mkdirp from "mkdirp";
+import fs from "fs";
+import path from "path";
 import * as parser from "./parser";
 import * as templates from "./templates";
-import { ModelTypes } from "../types";
+import * as schemaPaths from "./schemaPaths";
+import { ModelTypes, TypeMapper } from "../types";
 
 // this strips comments of special tokens since ts-morph generates jsdoc tokens automatically
 const cleanComment = (comment: string) => {
@@ -85,6 +96,11 @@ export const replaceModelTypes = (
 
       if (documentProperties || leanProperties) {
         virtualNames.forEach(virtualName => {
+          /**
+           * @experimental trying this out since certain virtual types are indeterminable and get set to void, which creates incorrect TS errors
+           * This should be a fine workaround because virtual properties shouldn't return solely `void`, they return real values.
+           */
+          const virtualType = virtuals[virtualName] === "void" ? "any" : virtuals[virtualName];
           const virtualNameComponents = virtualName.split(".");
           let nestedDocProps: PropertySignature[] | undefined;
           let nestedLeanProps: PropertySignature[] | undefined;
@@ -95,13 +111,13 @@ export const replaceModelTypes = (
                 const docPropMatch = (nestedDocProps ?? documentProperties).find(
                   prop => prop.getName() === nameComponent
                 );
-                docPropMatch?.setType(virtuals[virtualName]);
+                docPropMatch?.setType(virtualType);
               }
               if (leanProperties) {
                 const leanPropMatch = (nestedLeanProps ?? leanProperties).find(
                   prop => prop.getName() === nameComponent
                 );
-                leanPropMatch?.setType(virtuals[virtualName]);
+                leanPropMatch?.setType(virtualType);
               }
 
               return;
@@ -188,12 +204,107 @@ export const overloadQueryPopulate = (sourceFile: SourceFile) => {
   sourceFile.addStatements("\n" + templates.QUERY_POPULATE);
 };
 
-export const createSourceFile = (genPath: string) => {
-  const project = new Project();
+// pass a shared `project` when generating multiple files that import from each other
+export const createSourceFile = (genPath: string, project = new Project()) => {
   const sourceFile = project.createSourceFile(genPath, "", { overwrite: true });
   return sourceFile;
 };
 
+export const HELPERS_FILE_NAME = "helpers.gen.ts";
+export const BARREL_FILE_NAME = "index.ts";
+
+// file name of a model's types when splitting output into one file per model, i.e. `UserProfile` -> `userProfile.gen.ts`
+export const getModelFileName = (modelName: string) =>
+  `${modelName.charAt(0).toLowerCase()}${modelName.slice(1)}.gen.ts`;
+
+// creates the shared file containing the populate helpers, used when splitting output into one file per model
+export const createHelpersFile = ({
+  folderPath,
+  project,
+  noPopulateOverload
+}: {
+  folderPath: string;
+  project: Project;
+  noPopulateOverload?: boolean;
+}) => {
+  const sourceFile = createSourceFile(path.join(folderPath, HELPERS_FILE_NAME), project);
+
+  sourceFile.addStatements(writer => {
+    writer.write(templates.MAIN_HEADER).blankLine();
+    writer.write(templates.MONGOOSE_IMPORT).blankLine();
+  });
+
+  addPopulateHelpers(sourceFile);
+  if (!noPopulateOverload) overloadQueryPopulate(sourceFile);
+
+  return sourceFile;
+};
+
+// creates an `index.ts` file re-exporting every generated file
+export const createBarrelFile = ({
+  folderPath,
+  project,
+  sourceFiles
+}: {
+  folderPath: string;
+  project: Project;
+  sourceFiles: SourceFile[];
+}) => {
+  const sourceFile = createSourceFile(path.join(folderPath, BARREL_FILE_NAME), project);
+
+  sourceFile.addStatements(writer => {
+    writer.write(templates.MAIN_HEADER).blankLine();
+    sourceFiles.forEach(file => {
+      writer.writeLine(`export * from "${sourceFile.getRelativePathAsModuleSpecifierTo(file)}";`);
+    });
+  });
+
+  return sourceFile;
+};
+
+// When output is split into multiple files, types from one file reference types declared in others (i.e. `ref` fields
+// referencing another model's document type). This finds each of these references and imports the type from the file
+// that declares it. Constants only used as types (i.e. the `deselectedFields` key of the helpers) are imported too.
+export const addCrossFileImports = (sourceFiles: SourceFile[]) => {
+  const declaringFiles: { [typeName: string]: SourceFile } = {};
+  sourceFiles.forEach(sourceFile => {
+    [...sourceFile.getTypeAliases(), ...sourceFile.getVariableDeclarations()].forEach(declaration => {
+      declaringFiles[declaration.getName()] = sourceFile;
+    });
+  });
+
+  sourceFiles.forEach(sourceFile => {
+    const importsByFile = new Map<SourceFile, Set<string>>();
+
+    const referencedNames = [
+      ...sourceFile.getDescendantsOfKind(SyntaxKind.TypeReference).map(typeRef => typeRef.getTypeName()),
+      // constants used as property keys (i.e. `[deselectedFields]?: ...`)
+      ...sourceFile
+        .getDescendantsOfKind(SyntaxKind.ComputedPropertyName)
+        .map(propertyName => propertyName.getExpression())
+    ];
+
+    referencedNames.forEach(typeName => {
+      // qualified names (i.e. `mongoose.Types.ObjectId`) are never declared in generated files
+      if (!Node.isIdentifier(typeName)) return;
+
+      const declaringFile = declaringFiles[typeName.getText()];
+      if (!declaringFile || declaringFile === sourceFile) return;
+
+      const typeNames = importsByFile.get(declaringFile) ?? new Set<string>();
+      typeNames.add(typeName.getText());
+      importsByFile.set(declaringFile, typeNames);
+    });
+
+    importsByFile.forEach((typeNames, declaringFile) => {
+      sourceFile.addImportDeclaration({
+        moduleSpecifier: sourceFile.getRelativePathAsModuleSpecifierTo(declaringFile),
+        namedImports: [...typeNames].sort()
+      });
+    });
+  });
+};
+
 export const getSchemaTypes = ({ schema, modelName }: { schema: any; modelName: string }) => {
   let schemaTypes = "";
 
@@ -217,7 +328,29 @@ export const getSchemaTypes = ({ schema, modelName }: { schema: any; modelName:
   schemaTypes += parser.parseFunctions(schema.statics, modelName, "statics");
   schemaTypes += "}\n\n";
 
-  const modelExtend = `mongoose.Model<${modelName}Document, ${modelName}Queries>`;
+  let modelExtend = `mongoose.Model<${modelName}Document, ${modelName}Queries>`;
+
+  // queries leave out the fields declared with `select: false`, so their results use the `Selectable` document type.
+  // Members of an intersection are tried in order, so these come before the model's own queries.
+  if (parser.getDeselectedFields(schema).length > 0) {
+    const documentName = `${modelName}Document`;
+    const queryArgs = `projection?: any | null, options?: mongoose.QueryOptions | null`;
+    const queryType = (resultType: string) =>
+      `mongoose.QueryWithHelpers<${resultType}, ${documentName}, ${modelName}Queries>`;
+
+    schemaTypes += templates.getSelectableQueriesDocs(modelName);
+    schemaTypes += `\nexport type ${modelName}SelectableQueries = {\n`;
+    schemaTypes += `find(filter?: mongoose.FilterQuery<${documentName}>, ${queryArgs}): ${queryType(
+      `${documentName}Selectable[]`
+    )};\n`;
+    schemaTypes += `findOne(filter?: mongoose.FilterQuery<${documentName}>, ${queryArgs}): ${queryType(
+      `${documentName}Selectable | null`
+    )};\n`;
+    schemaTypes += `findById(id: any, ${queryArgs}): ${queryType(`${documentName}Selectable | null`)};\n`;
+    schemaTypes += "}\n\n";
+
+    modelExtend = `${modelName}SelectableQueries & ${modelExtend}`;
+  }
 
   schemaTypes += templates.getModelDocs(modelName);
   schemaTypes += `\nexport type ${modelName}Model = ${modelExtend} & ${modelName}Statics\n\n`;
@@ -228,96 +361,243 @@ export const getSchemaTypes = ({ schema, modelName }: { schema: any; modelName:
   return schemaTypes;
 };
 
+type Schemas = {
+  [modelName: string]: mongoose.Schema;
+};
+
+const writeHeader = (writer: CodeBlockWriter, imports: string[], noMongoose?: boolean) => {
+  writer.write(templates.MAIN_HEADER).blankLine();
+  // mongoose import
+  if (!noMongoose) writer.write(templates.MONGOOSE_IMPORT);
+
+  // custom, user-defined imports
+  if (imports.length > 0) writer.write(imports.join("\n"));
+
+  writer.blankLine();
+  // writer.write("if (true)").block(() => {
+  //     writer.write("something;");
+  // });
+};
+
+const writeModelDeclarations = (
+  writer: CodeBlockWriter,
+  {
+    schemas,
+    noMongoose,
+    typeMapper,
+    readonlyLean
+  }: {
+    schemas: Schemas;
+    noMongoose?: boolean;
+    typeMapper?: TypeMapper;
+    readonlyLean?: boolean;
+  }
+) => {
+  Object.keys(schemas).forEach(modelName => {
+    const schema = schemas[modelName];
+
+    const shouldLeanIncludeVirtuals = parser.getShouldLeanIncludeVirtuals(schema);
+    // passing modelName causes childSchemas to be processed
+    const leanInterfaceStr = parser.parseSchema({
+      schema,
+      modelName,
+      isDocument: false,
+      header: templates.getLeanDocs(modelName) + `\nexport type ${modelName} = {\n`,
+      footer: "}",
+      noMongoose,
+      shouldLeanIncludeVirtuals,
+      typeMapper,
+      readonlyImmutable: readonlyLean
+    });
+
+    writer.write(leanInterfaceStr).blankLine();
+
+    // base models get a union of their type and their discriminators' types. Discriminators are registered in the
+    // order their files are loaded, which differs when only some files are reloaded, so they're sorted.
+    const discriminatorNames = Object.keys((schema as any).discriminators ?? {}).sort();
+    const discriminatorKey: string = (schema as any).options.discriminatorKey;
+    if (discriminatorNames.length > 0) {
+      writer
+        .write(parser.getDiscriminatorUnion(modelName, discriminatorKey, discriminatorNames))
+        .blankLine();
+    }
+
+    const deselectedFields = parser.getDeselectedFields(schema);
+    const writeSelectable = (typeName: string) => {
+      if (deselectedFields.length === 0) return;
+
+      const omittedFields = deselectedFields.map(field => `"${field}"`).join(" | ");
+      writer
+        .write(templates.getSelectableDocs(typeName, modelName, deselectedFields[0]))
+        .write(`\nexport type ${typeName}Selectable = Omit<${typeName}, ${omittedFields}>`);
+
+      // the omitted fields are kept under a key declared along the populate helpers, for the select overloads
+      if (!noMongoose) {
+        writer
+          .write(" & {\n")
+          .write(templates.getDeselectedFieldsDocs(deselectedFields[0]))
+          .write(`\n[deselectedFields]?: Pick<${typeName}, ${omittedFields}>;\n}`);
+      }
+      writer.blankLine();
+    };
+
+    writeSelectable(modelName);
+
+    // toObject() only applies aliases along with virtuals, unless `toObject.aliases` is false
+    const rootAliases = parser.getRootAliases(schema);
+    if (Object.keys(rootAliases).length > 0) {
+      const isToObjectAliased =
+        shouldLeanIncludeVirtuals && (schema as any).options.toObject?.aliases !== false;
+
+      // remapping the keys of the lean type keeps the optional & readonly modifiers of the aliased paths
+      const aliasKeys = Object.keys(rootAliases)
+        .map(alias => `path extends "${rootAliases[alias]}" ? "${alias}" : `)
+        .join("");
+      writer
+        .write(templates.getAliasedDocs(modelName, isToObjectAliased))
+        .write(`\nexport type ${modelName}Aliased = ${modelName} & {\n`)
+        .write(`[path in keyof ${modelName} as ${aliasKeys}never]: ${modelName}[path];\n}`)
+        .blankLine();
+    }
+
+    const createInputStr = parser.parseSchema({
+      schema,
+      modelName,
+      isDocument: false,
+      isCreateInput: true,
+      header: templates.getCreateInputDocs(modelName) + `\nexport type ${modelName}CreateInput = {\n`,
+      footer: "}",
+      noMongoose,
+      shouldLeanIncludeVirtuals: false,
+      typeMapper
+    });
+
+    writer.write(createInputStr).blankLine();
+    writer.write(schemaPaths.getUpdateType(modelName, schema)).blankLine();
+    writer.write(schemaPaths.getFilterType(modelName, schema)).blankLine();
+    writer.write(schemaPaths.getPathsTypes(modelName, schema)).blankLine();
+
+    // if noMongoose, skip adding document types
+    if (noMongoose) return;
+
+    // get type of _id to pass to mongoose.Document
+    // not sure why schema doesnt have `tree` property for typings
+    let _idType;
+    if ((schema as any).tree._id) {
+      _idType = parser.convertBaseTypeToTs("_id", (schema as any).tree._id, true, noMongoose);
+    }
+
+    const mongooseDocExtend = `mongoose.Document<${_idType ?? "never"}, ${modelName}Queries>`;
+
+    let documentInterfaceStr = "";
+    documentInterfaceStr += getSchemaTypes({ schema, modelName });
+    documentInterfaceStr += parser.parseSchema({
+      schema,
+      modelName,
+      isDocument: true,
+      header:
+        templates.getDocumentDocs(modelName) +
+        `\nexport type ${modelName}Document = ${mongooseDocExtend} & ${modelName}Methods & {\n`,
+      footer: "}",
+      shouldLeanIncludeVirtuals,
+      typeMapper,
+      readonlyImmutable: true,
+      includeAliases: true
+    });
+
+    writer.write(documentInterfaceStr).blankLine();
+    writeSelectable(`${modelName}Document`);
+
+    if (discriminatorNames.length > 0) {
+      writer
+        .write(
+          parser.getDiscriminatorUnion(
+            `${modelName}Document`,
+            discriminatorKey,
+            discriminatorNames.map(name => `${name}Document`)
+          )
+        )
+        .blankLine();
+    }
+  });
+};
+
 export const generateTypes = ({
   sourceFile,
   schemas,
   imports = [],
-  noMongoose
+  noMongoose,
+  typeMapper,
+  readonlyLean
 }: {
   sourceFile: SourceFile;
-  schemas: {
-    [modelName: string]: mongoose.Schema;
-  };
+  schemas: Schemas;
   imports?: string[];
   noMongoose?: boolean;
+  typeMapper?: TypeMapper;
+  readonlyLean?: boolean;
 }) => {
   sourceFile.addStatements(writer => {
-    writer.write(templates.MAIN_HEADER).blankLine();
-    // mongoose import
-    if (!noMongoose) writer.write(templates.MONGOOSE_IMPORT);
-
-    // custom, user-defined imports
-    if (imports.length > 0) writer.write(imports.join("\n"));
-
-    writer.blankLine();
-    // writer.write("if (true)").block(() => {
-    //     writer.write("something;");
-    // });
-
-    Object.keys(schemas).forEach(modelName => {
-      const schema = schemas[modelName];
-
-      const shouldLeanIncludeVirtuals = parser.getShouldLeanIncludeVirtuals(schema);
-      // passing modelName causes childSchemas to be processed
-      const leanInterfaceStr = parser.parseSchema({
-        schema,
-        modelName,
-        isDocument: false,
-        header: templates.getLeanDocs(modelName) + `\nexport type ${modelName} = {\n`,
-        footer: "}",
-        noMongoose,
-        shouldLeanIncludeVirtuals
-      });
+    writeHeader(writer, imports, noMongoose);
+    writeModelDeclarations(writer, { schemas, noMongoose, typeMapper, readonlyLean });
+  });
 
-      writer.write(leanInterfaceStr).blankLine();
+  return sourceFile;
+};
 
-      // if noMongoose, skip adding document types
-      if (noMongoose) return;
+// Generates the declarations of a single model, with its methods, statics, query helpers & virtuals types replaced.
+// Each model's declarations only depend on its own schema & model file, so they can be cached and combined into a
+// file using `generateFileFromDeclarations`.
+export const generateModelDeclarations = ({
+  modelName,
+  schema,
+  modelTypes,
+  noMongoose,
+  typeMapper,
+  readonlyLean
+}: {
+  modelName: string;
+  schema: mongoose.Schema;
+  modelTypes: ModelTypes;
+  noMongoose?: boolean;
+  typeMapper?: TypeMapper;
+  readonlyLean?: boolean;
+}) => {
+  const schemas = { [modelName]: schema };
 
-      // get type of _id to pass to mongoose.Document
-      // not sure why schema doesnt have `tree` property for typings
-      let _idType;
-      if ((schema as any).tree._id) {
-        _idType = parser.convertBaseTypeToTs("_id", (schema as any).tree._id, true, noMongoose);
-      }
+  const sourceFile = createSourceFile(getModelFileName(modelName));
+  sourceFile.addStatements(writer => {
+    writeModelDeclarations(writer, { schemas, noMongoose, typeMapper, readonlyLean });
+  });
 
-      const mongooseDocExtend = `mongoose.Document<${_idType ?? "never"}, ${modelName}Queries>`;
-
-      let documentInterfaceStr = "";
-      documentInterfaceStr += getSchemaTypes({ schema, modelName });
-      documentInterfaceStr += parser.parseSchema({
-        schema,
-        modelName,
-        isDocument: true,
-        header:
-          templates.getDocumentDocs(modelName) +
-          `\nexport type ${modelName}Document = ${mongooseDocExtend} & ${modelName}Methods & {\n`,
-        footer: "}",
-        shouldLeanIncludeVirtuals
-      });
+  if (!noMongoose && modelTypes[modelName]) {
+    replaceModelTypes(sourceFile, { [modelName]: modelTypes[modelName] }, schemas);
+  }
 
-      writer.write(documentInterfaceStr).blankLine();
-    });
+  return sourceFile.getFullText();
+};
+
+export const generateFileFromDeclarations = ({
+  sourceFile,
+  declarations,
+  imports = [],
+  noMongoose
+}: {
+  sourceFile: SourceFile;
+  declarations: string[];
+  imports?: string[];
+  noMongoose?: boolean;
+}) => {
+  sourceFile.addStatements(writer => {
+    writeHeader(writer, imports, noMongoose);
+    declarations.forEach(declaration => writer.write(declaration));
   });
 
   return sourceFile;
 };
 
-export const saveFile = ({ sourceFile }: { sourceFile: SourceFile; genFilePath: string }) => {
-  try {
-    sourceFile.saveSync();
-    // fs.writeFileSync(genFilePath, sourceFile.getFullText(), "utf8");
-  } catch (err) {
-    // if folder doesnt exist, create and then write again
-    // if (err.message.includes("ENOENT: no such file or directory")) {
-    //   console.log(`Path ${genFilePath} not found; creating...`);
-
-    //   const { dir } = path.parse(genFilePath);
-    //   mkdirp.sync(dir);
-
-    //   fs.writeFileSync(genFilePath, sourceFile.getFullText(), "utf8");
-    // }
-    console.error(err);
-    throw err;
-  }
+export const saveFile = ({ genFilePath, content }: { genFilePath: string; content: string }) => {
+  // create the output folder if it doesnt exist yet
+  mkdirp.sync(path.dirname(genFilePath));
+  fs.writeFileSync(genFilePath, content, "utf8");
 };
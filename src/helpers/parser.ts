@@ -1,8 +1,9 @@
 import mongoose from "mongoose";
-import flatten, { unflatten } from "flat";
+import path from "path";
 import _ from "lodash";
 
 import * as templates from "./templates";
+import { Diagnostic, TypeMapper } from "../types";
 
 export const getShouldLeanIncludeVirtuals = (schema: any) => {
   // Check the toObject options to determine if virtual property should be included.
@@ -20,16 +21,19 @@ const formatKeyEntry = ({
   key,
   val,
   isOptional = false,
+  isReadonly = false,
   newline = true
 }: {
   key: string;
   val: string;
   isOptional?: boolean;
+  isReadonly?: boolean;
   newline?: boolean;
 }) => {
   let line = "";
 
   if (key) {
+    if (isReadonly) line += "readonly ";
     line += key;
     if (isOptional) line += "?";
     line += ": ";
@@ -104,7 +108,50 @@ export const parseFunctions = (
   return interfaceString;
 };
 
+// SchemaTypes added in newer mongoose versions. The constructors are `undefined` when the installed mongoose version
+// doesn't export them, in which case schemas can't use them either.
+const NEWER_SCHEMA_TYPES: {
+  [name: string]: { constructors: unknown[]; lean: string; document: string };
+} = {
+  UUID: {
+    constructors: [(mongoose.Schema.Types as any).UUID],
+    lean: "string",
+    document: "mongoose.Types.UUID"
+  },
+  BigInt: {
+    // mongoose accepts the global `BigInt` as a type, like it does `String` or `Number`
+    constructors: (mongoose.Schema.Types as any).BigInt ?
+      [(mongoose.Schema.Types as any).BigInt, BigInt] :
+      [],
+    lean: "bigint",
+    document: "bigint"
+  },
+  Double: {
+    constructors: [(mongoose.Schema.Types as any).Double],
+    lean: "number",
+    document: "mongoose.Types.Double"
+  },
+  Int32: {
+    constructors: [(mongoose.Schema.Types as any).Int32],
+    lean: "number",
+    document: "number"
+  }
+};
+
+// returns the name of the newer SchemaType `type` refers to, if any
+const getNewerSchemaTypeName = (type: unknown) =>
+  Object.keys(NEWER_SCHEMA_TYPES).find(
+    name =>
+      type === name ||
+      NEWER_SCHEMA_TYPES[name].constructors.some(
+        constructor => constructor !== undefined && constructor === type
+      )
+  );
+
 const BASE_TYPES = [
+  ..._.flatMap(Object.values(NEWER_SCHEMA_TYPES), ({ constructors }) =>
+    constructors.filter(constructor => constructor !== undefined)
+  ),
   Object,
   String,
   "String",
@@ -141,6 +188,13 @@ export const convertBaseTypeToTs = (
   }
 
   const mongooseType = val.type === Map ? val.of : val.type;
+
+  const newerSchemaTypeName = getNewerSchemaTypeName(mongooseType);
+  if (newerSchemaTypeName) {
+    const { lean, document } = NEWER_SCHEMA_TYPES[newerSchemaTypeName];
+    return isDocument ? document : lean;
+  }
+
   switch (mongooseType) {
     case String:
     case "String":
@@ -181,35 +235,208 @@ export const convertBaseTypeToTs = (
   }
 };
 
+// Returns the union of a base type (i.e. `Event` or `EventDocument`) and the matching types of its discriminators.
+// Documents created without the discriminator key are instances of the base type, so TS can narrow the union on the key.
+export const getDiscriminatorUnion = (
+  typeName: string,
+  key: string,
+  discriminatorTypeNames: string[]
+) => {
+  const members = [`(${typeName} & { ${key}?: undefined })`, ...discriminatorTypeNames];
+  return (
+    templates.getDiscriminatorUnionDocs(typeName, key) +
+    `\nexport type ${typeName}Union = ${members.join(" | ")}`
+  );
+};
+
+// the suffix of the types generated for a schema, i.e. `UserDocument` or `UserCreateInput`
+const getTypeSuffix = (isDocument: boolean, isCreateInput?: boolean) => {
+  if (isDocument) return "Document";
+  return isCreateInput ? "CreateInput" : "";
+};
+
+// whether the `immutable` option of a path makes mongoose reject changes once its document is created. It can also be
+// a function deciding per document, in which case the path is still treated as immutable.
+const isImmutable = (immutable: unknown) => immutable === true || typeof immutable === "function";
+
+// whether an `alias` is declared at the root of the schema. Mongoose declares an alias as a virtual at the path given
+// by the alias, so dotted aliases (i.e. `profile.name`) end up in nested paths.
+const isRootAlias = (alias: unknown): alias is string =>
+  typeof alias === "string" && !alias.includes(".");
+
+// Flattens a schema tree into dot notation paths (i.e. `{ "address.city": String }`), keeping arrays and schemas as
+// values. Schemas are processed separately, and flattening recursive schemas would never end.
+const flattenTree = (tree: any, prefix = "", flatTree: any = {}) => {
+  Object.keys(tree).forEach(key => {
+    const val = tree[key];
+    const isObject = Object.prototype.toString.call(val) === "[object Object]" && !Buffer.isBuffer(val);
+
+    if (isObject && !val.instanceOfSchema && Object.keys(val).length > 0)
+      flattenTree(val, `${prefix}${key}.`, flatTree);
+    else flatTree[prefix + key] = val;
+  });
+  return flatTree;
+};
+
+// Reverts `flattenTree`, leaving the values as they are
+const unflattenTree = (flatTree: any) => {
+  const tree: any = {};
+  Object.keys(flatTree).forEach(path => {
+    _.setWith(tree, path.split("."), flatTree[path], Object);
+  });
+  return tree;
+};
+
+// stack overflows are the only `RangeError`s caused by recursion, others (i.e. from plugins) are thrown as is
+const isStackOverflow = (err: unknown) =>
+  err instanceof RangeError && err.message.includes("Maximum call stack size exceeded");
+
+class RecursiveSchemaError extends Error {
+  constructor(modelName: string, path: string) {
+    super(
+      `Could not parse the path "${path}" of ${modelName}: its schema recurses endlessly. Recursive paths ` +
+        "should reference the schema itself (i.e. `children: [CategorySchema]`)."
+    );
+  }
+}
+
+// whether a nested path (i.e. `{ address: { city: String } }`) has a required field, recursively
+const hasRequiredField = (nestedSchema: any): boolean =>
+  Object.values(nestedSchema).some((val: any) => {
+    if (!val) return false;
+
+    const requiredValue = Array.isArray(val.required) ? val.required[0] : val.required;
+    if (requiredValue === true) return true;
+
+    return _.isPlainObject(val) && !val.type && hasRequiredField(val);
+  });
+
 const parseChildSchemas = ({
   schema,
   isDocument,
   noMongoose,
-  modelName
+  modelName,
+  typeMapper,
+  isCreateInput,
+  readonlyImmutable,
+  includeAliases
 }: {
   schema: any;
   isDocument: boolean;
   noMongoose: boolean;
   modelName: string;
+  typeMapper?: TypeMapper;
+  isCreateInput?: boolean;
+  readonlyImmutable?: boolean;
+  includeAliases?: boolean;
 }) => {
-  const flatSchemaTree: any = flatten(schema.tree, { safe: true });
+  // embedded discriminators reference their base schema, which makes their tree recursive. They're read from
+  // `child.model.discriminators` instead.
+  schema.childSchemas.forEach((child: any) => delete child.schema.discriminators);
+  // schemas are cloned before being parsed, so only the schemas being parsed along with this one are marked
+  schema._recursiveTypeName = modelName;
+
+  const flatSchemaTree: any = flattenTree(schema.tree);
   let childInterfaces = "";
 
+  const parseChildInterface = ({
+    childSchema,
+    name,
+    path,
+    rootPath,
+    isSubdocArray
+  }: {
+    childSchema: any;
+    name: string;
+    path: string;
+    rootPath: string;
+    isSubdocArray: boolean;
+  }) => {
+    let header = "";
+    if (isDocument)
+      header += isSubdocArray ?
+        templates.getSubdocumentDocs(rootPath, path) :
+        templates.getDocumentDocs(rootPath);
+    else if (isCreateInput) header += templates.getCreateInputDocs(name, true);
+    else header += templates.getLeanDocs(rootPath, name);
+
+    header += "\nexport ";
+
+    if (isCreateInput) header += `type ${name}CreateInput = {\n`;
+    else if (isDocument) {
+      header += `type ${name}Document = `;
+      if (isSubdocArray) {
+        header += "mongoose.Types.Subdocument";
+      }
+      // not sure why schema doesnt have `tree` property for typings
+      else {
+        let _idType;
+        // get type of _id to pass to mongoose.Document
+        // this is likely unecessary, since non-subdocs are not allowed to have option _id: false (https://mongoosejs.com/docs/guide.html#_id)
+        if ((schema as any).tree._id)
+          _idType = convertBaseTypeToTs("_id", (schema as any).tree._id, true, noMongoose);
+
+        // TODO: this should extend `${name}Methods` like normal docs, but generator will only have methods, statics, etc. under the model name, not the subdoc model name
+        // so after this is generated, we should do a pass and see if there are any child schemas that have non-subdoc definitions.
+        // or could just wait until we dont need duplicate subdoc versions of docs (use the same one for both embedded doc and non-subdoc)
+        header += `mongoose.Document<${_idType ?? "never"}>`;
+      }
+
+      header += " & {\n";
+    } else header += `type ${name} = {\n`;
+
+    try {
+      // TODO: this should not circularly call parseSchema
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      return parseSchema({
+        schema: childSchema,
+        modelName: name,
+        header,
+        isDocument,
+        footer: `}\n\n`,
+        noMongoose,
+        shouldLeanIncludeVirtuals: isCreateInput ? false : getShouldLeanIncludeVirtuals(childSchema),
+        typeMapper,
+        isCreateInput,
+        isSubdocument: true,
+        readonlyImmutable,
+        includeAliases
+      });
+    } catch (err) {
+      // recursion that isn't detected (i.e. a new schema created for each level) ends with a stack overflow, which is
+      // reported with the outermost path, where the recursion starts
+      if (!(isStackOverflow(err) || err instanceof RecursiveSchemaError)) throw err;
+      throw new RecursiveSchemaError(modelName, path);
+    }
+  };
+
   const processChild = (rootPath: string) => {
     return (child: any) => {
       const path = child.model.path;
       const isSubdocArray = child.model.$isArraySubdocument;
       const name = getSubDocName(path, rootPath);
 
-      child.schema._isReplacedWithSchema = true;
-      child.schema._inferredInterfaceName = name;
-      child.schema._isSubdocArray = isSubdocArray;
+      // subdocuments using a schema that is already being parsed (i.e. `children: [CategorySchema]`) reference its type
+      // rather than being parsed again, which would never end
+      const recursiveTypeName: string | undefined = child.schema._recursiveTypeName;
+      const childSchema: any = recursiveTypeName ? { _isRecursive: true } : child.schema;
+
+      childSchema._isReplacedWithSchema = true;
+      childSchema._inferredInterfaceName = recursiveTypeName ?? name;
+      childSchema._isSubdocArray = isSubdocArray;
 
       const requiredValuePath = `${path}.required`;
       if (requiredValuePath in flatSchemaTree && flatSchemaTree[requiredValuePath] === true) {
-        child.schema.required = true;
+        childSchema.required = true;
+      }
+
+      if (isImmutable(flatSchemaTree[`${path}.immutable`])) {
+        childSchema.immutable = true;
       }
 
+      const alias = flatSchemaTree[`${path}.alias`];
+      if (typeof alias === "string") childSchema.alias = alias;
+
       /**
        * for subdocument arrays, mongoose supports passing `default: undefined` to disable the default empty array created.
        * here we indicate this on the child schema using _isDefaultSetToUndefined so that the parser properly sets the `isOptional` flag
@@ -217,10 +444,10 @@ const parseChildSchemas = ({
       if (isSubdocArray) {
         const defaultValuePath = `${path}.default`;
         if (defaultValuePath in flatSchemaTree && flatSchemaTree[defaultValuePath] === undefined) {
-          child.schema._isDefaultSetToUndefined = true;
+          childSchema._isDefaultSetToUndefined = true;
         }
       }
-      flatSchemaTree[path] = isSubdocArray ? [child.schema] : child.schema;
+      flatSchemaTree[path] = isSubdocArray ? [childSchema] : childSchema;
 
       // since we now will process this child by using the schema, we can remove any further nested properties in flatSchemaTree
       for (const key in flatSchemaTree) {
@@ -229,54 +456,47 @@ const parseChildSchemas = ({
         }
       }
 
-      let header = "";
-      if (isDocument)
-        header += isSubdocArray ?
-          templates.getSubdocumentDocs(rootPath, path) :
-          templates.getDocumentDocs(rootPath);
-      else header += templates.getLeanDocs(rootPath, name);
-
-      header += "\nexport ";
+      if (recursiveTypeName) return;
 
-      if (isDocument) {
-        header += `type ${name}Document = `;
-        if (isSubdocArray) {
-          header += "mongoose.Types.Subdocument";
-        }
-        // not sure why schema doesnt have `tree` property for typings
-        else {
-          let _idType;
-          // get type of _id to pass to mongoose.Document
-          // this is likely unecessary, since non-subdocs are not allowed to have option _id: false (https://mongoosejs.com/docs/guide.html#_id)
-          if ((schema as any).tree._id)
-            _idType = convertBaseTypeToTs("_id", (schema as any).tree._id, true, noMongoose);
-
-          // TODO: this should extend `${name}Methods` like normal docs, but generator will only have methods, statics, etc. under the model name, not the subdoc model name
-          // so after this is generated, we should do a pass and see if there are any child schemas that have non-subdoc definitions.
-          // or could just wait until we dont need duplicate subdoc versions of docs (use the same one for both embedded doc and non-subdoc)
-          header += `mongoose.Document<${_idType ?? "never"}>`;
-        }
-
-        header += " & {\n";
-      } else header += `type ${name} = {\n`;
+      childInterfaces += parseChildInterface({
+        childSchema: child.schema,
+        name,
+        path,
+        rootPath,
+        isSubdocArray
+      });
 
-      // TODO: this should not circularly call parseSchema
-      // eslint-disable-next-line @typescript-eslint/no-use-before-define
-      childInterfaces += parseSchema({
-        schema: child.schema,
-        modelName: name,
-        header,
-        isDocument,
-        footer: `}\n\n`,
-        noMongoose,
-        shouldLeanIncludeVirtuals: getShouldLeanIncludeVirtuals(child.schema)
+      // embedded discriminators (created with `schema.path("items").discriminator()`) are generated as separate types,
+      // and the path is typed as their union
+      const discriminators: { [discriminatorName: string]: any } = child.model.discriminators ?? {};
+      const discriminatorTypeNames = Object.keys(discriminators).map(discriminatorName => {
+        const discriminatorTypeName = getSubDocName(discriminatorName, name);
+        childInterfaces += parseChildInterface({
+          childSchema: discriminators[discriminatorName].schema,
+          name: discriminatorTypeName,
+          path,
+          rootPath,
+          isSubdocArray
+        });
+        return discriminatorTypeName;
       });
+
+      if (discriminatorTypeNames.length > 0) {
+        const suffix = getTypeSuffix(isDocument, isCreateInput);
+        child.schema._hasDiscriminators = true;
+        childInterfaces +=
+          getDiscriminatorUnion(
+            name + suffix,
+            child.schema.options.discriminatorKey,
+            discriminatorTypeNames.map(typeName => typeName + suffix)
+          ) + "\n\n";
+      }
     };
   };
 
   schema.childSchemas.forEach(processChild(modelName));
 
-  const schemaTree = unflatten(flatSchemaTree);
+  const schemaTree = unflattenTree(flatSchemaTree);
   schema.tree = schemaTree;
 
   return childInterfaces;
@@ -285,11 +505,28 @@ const parseChildSchemas = ({
 export const getParseKeyFn = (
   isDocument: boolean,
   shouldLeanIncludeVirtuals: boolean,
-  noMongoose: boolean
+  noMongoose: boolean,
+  {
+    typeMapper,
+    isCreateInput = false,
+    readonlyImmutable = false,
+    includeAliases = false
+  }: {
+    typeMapper?: TypeMapper;
+    isCreateInput?: boolean;
+    /** Mark `immutable` paths as `readonly` */
+    readonlyImmutable?: boolean;
+    /** Add the `alias` of each path as another property of the same type */
+    includeAliases?: boolean;
+  } = {}
 ) => {
   return (key: string, valOriginal: any): string => {
+    // mongoose generates `_id`s, so they're left out of create inputs unless they're user-defined
+    if (isCreateInput && key === "_id" && valOriginal?.auto) return "";
+
     // if the value is an object, we need to deepClone it to ensure changes to `val` aren't persisted in parent function
     let val = _.isPlainObject(valOriginal) ? _.cloneDeep(valOriginal) : valOriginal;
+    const hasDefault = valOriginal?.default !== undefined;
 
     let valType: string | undefined;
 
@@ -352,7 +589,11 @@ export const getParseKeyFn = (
       }
     }
 
-    if (BASE_TYPES.includes(val)) val = { type: val };
+    const isReadonly = readonlyImmutable && isImmutable(val?.immutable);
+    const alias = includeAliases && isRootAlias(val?.alias) ? val.alias : undefined;
+
+    // types can also be referenced by name, i.e. custom SchemaTypes listed in `typeMappings`
+    if (BASE_TYPES.includes(val) || typeof val === "string") val = { type: val };
 
     const isMap = val?.type === Map;
 
@@ -369,7 +610,10 @@ export const getParseKeyFn = (
       valType = "any";
       isOptional = isArrayOuterDefaultSetToUndefined ?? false;
     } else if (val._inferredInterfaceName) {
-      valType = val._inferredInterfaceName + (isDocument ? "Document" : "");
+      valType =
+        val._inferredInterfaceName +
+        getTypeSuffix(isDocument, isCreateInput) +
+        (val._hasDiscriminators ? "Union" : "");
     } else if (val.path && val.path && val.setters && val.getters) {
       // check for virtual properties
       // skip id property
@@ -409,7 +653,15 @@ export const getParseKeyFn = (
     } else {
       // _ids are always required
       if (key === "_id") isOptional = false;
-      const convertedType = convertBaseTypeToTs(key, val, isDocument, noMongoose);
+      // plugins get the first chance to convert a type, so they can handle custom SchemaTypes or override the defaults
+      const mappedType = typeMapper?.({
+        key,
+        type: typeof val === "function" ? val : val.type === Map ? val.of : val.type,
+        definition: val,
+        isDocument,
+        noMongoose
+      });
+      const convertedType = mappedType ?? convertBaseTypeToTs(key, val, isDocument, noMongoose);
 
       // TODO: we should detect nested types from unknown types and handle differently.
       // Currently, if we get an unknown type (ie not handled) then users run into a "max callstack exceeded error"
@@ -417,13 +669,19 @@ export const getParseKeyFn = (
         const nestedSchema = _.cloneDeep(val);
         valType = "{\n";
 
-        const parseKey = getParseKeyFn(isDocument, shouldLeanIncludeVirtuals, noMongoose);
+        // aliases of nested paths are declared at the root of the schema, so they're left to the virtuals
+        const parseKey = getParseKeyFn(isDocument, shouldLeanIncludeVirtuals, noMongoose, {
+          typeMapper,
+          isCreateInput,
+          readonlyImmutable
+        });
         Object.keys(nestedSchema).forEach((key: string) => {
           valType += parseKey(key, nestedSchema[key]);
         });
 
         valType += "}";
-        isOptional = false;
+        // mongoose always initializes nested paths, but they can be left out of create inputs if all their fields can
+        isOptional = isCreateInput && !hasRequiredField(nestedSchema);
       } else {
         valType = convertedType;
       }
@@ -448,8 +706,67 @@ export const getParseKeyFn = (
     if (isMap && isMapOfArray)
       valType = isDocument ? `mongoose.Types.Map<${valType}>` : `Map<string, ${valType}>`;
 
-    return formatKeyEntry({ key, val: valType, isOptional });
+    // mongoose initializes arrays & applies defaults, so these fields can be left out when creating a document
+    if (isCreateInput && (isArray || hasDefault)) isOptional = true;
+
+    const entry = formatKeyEntry({ key, val: valType, isOptional, isReadonly });
+    // mongoose declares a virtual getting & setting the path under its alias, i.e. `n` aliased to `name`
+    if (!alias) return entry;
+    return entry + formatKeyEntry({ key: alias, val: valType, isOptional, isReadonly });
+  };
+};
+
+// Returns the discriminator key & value of a discriminator's schema (created with `Model.discriminator()`), or
+// `undefined` for any other schema
+export const getDiscriminatorMapping = (
+  schema: any
+): { key: string; value: string | number } | undefined => {
+  const mapping = schema.discriminatorMapping;
+  if (!mapping || mapping.isRoot) return undefined;
+
+  return { key: mapping.key, value: mapping.value };
+};
+
+// Returns the names of the fields set by the `timestamps` schema option, omitting disabled ones. Nested field names
+// (i.e. `meta.createdAt`) are left to the paths mongoose adds to the schema.
+export const getTimestampFields = (schema: any): string[] => {
+  const timestamps = schema.options?.timestamps;
+  if (!timestamps) return [];
+
+  const getFieldName = (option: unknown, defaultName: string) => {
+    if (option === false) return undefined;
+    return typeof option === "string" ? option : defaultName;
   };
+
+  const { createdAt, updatedAt } =
+    timestamps === true ?
+      ({} as { createdAt?: string | boolean; updatedAt?: string | boolean }) :
+      timestamps;
+  return [getFieldName(createdAt, "createdAt"), getFieldName(updatedAt, "updatedAt")].filter(
+    (field): field is string => field !== undefined && !field.includes(".")
+  );
+};
+
+// Returns the root fields declared with `select: false`, which mongoose leaves out of query results unless they're
+// selected explicitly (i.e. `.select("+password")`)
+export const getDeselectedFields = (schema: any): string[] =>
+  Object.keys(schema.paths).filter(
+    path => !path.includes(".") && schema.paths[path].options?.select === false
+  );
+
+// Returns the aliases of the schema's root paths, keyed by alias (i.e. `{ name: "n" }`). These are generated along
+// their path rather than as virtuals.
+export const getRootAliases = (schema: any): { [alias: string]: string } =>
+  _.pickBy(schema.aliases ?? {}, (path: string, alias: string) => isRootAlias(alias) && !path.includes("."));
+
+// Returns the tree `parseSchema` walks, where subdocuments are replaced with their schema (and its
+// `_inferredInterfaceName`). The trees of these subdocument schemas aren't processed yet.
+export const getSchemaTree = (schemaOriginal: any, modelName: string) => {
+  const schema = _.cloneDeep(schemaOriginal);
+  if (schema.childSchemas?.length > 0)
+    parseChildSchemas({ schema, isDocument: false, noMongoose: false, modelName });
+
+  return schema.tree;
 };
 
 export const parseSchema = ({
@@ -459,7 +776,12 @@ export const parseSchema = ({
   header = "",
   footer = "",
   noMongoose = false,
-  shouldLeanIncludeVirtuals
+  shouldLeanIncludeVirtuals,
+  typeMapper,
+  isCreateInput = false,
+  isSubdocument = false,
+  readonlyImmutable = false,
+  includeAliases = false
 }: {
   schema: any;
   modelName?: string;
@@ -468,44 +790,118 @@ export const parseSchema = ({
   footer?: string;
   noMongoose?: boolean;
   shouldLeanIncludeVirtuals: boolean;
+  typeMapper?: TypeMapper;
+  /** Generate the type of the input of `Model.create()`, rather than the lean type */
+  isCreateInput?: boolean;
+  isSubdocument?: boolean;
+  /** Mark `immutable` paths as `readonly`, including the paths of nested objects & subdocuments */
+  readonlyImmutable?: boolean;
+  /** Add the aliases of root paths as properties, rather than leaving them out */
+  includeAliases?: boolean;
 }) => {
   let template = "";
   const schema = _.cloneDeep(schemaOriginal);
 
   if (schema.childSchemas?.length > 0 && modelName) {
-    template += parseChildSchemas({ schema, isDocument, noMongoose, modelName });
+    template += parseChildSchemas({
+      schema,
+      isDocument,
+      noMongoose,
+      modelName,
+      typeMapper,
+      isCreateInput,
+      readonlyImmutable,
+      includeAliases
+    });
   }
 
   template += header;
 
   const schemaTree = schema.tree;
 
-  const parseKey = getParseKeyFn(isDocument, shouldLeanIncludeVirtuals, noMongoose);
+  const parseKey = getParseKeyFn(isDocument, shouldLeanIncludeVirtuals, noMongoose, {
+    typeMapper,
+    isCreateInput,
+    readonlyImmutable,
+    includeAliases
+  });
+  const discriminatorMapping = getDiscriminatorMapping(schema);
+  // timestamps can't be set when creating a document
+  const timestampFields = isCreateInput ? [] : getTimestampFields(schema);
+  const rootAliases = getRootAliases(schema);
 
   Object.keys(schemaTree).forEach((key: string) => {
+    if (isCreateInput && getTimestampFields(schema).includes(key)) return;
+    // the virtuals declared for aliases are added along their path by `parseKey`
+    if (key in rootAliases) return;
+
+    // mongoose sets timestamps on every save, regardless of how the path is declared
+    if (timestampFields.includes(key)) {
+      template += formatKeyEntry({
+        key,
+        val: "Date",
+        isReadonly: readonlyImmutable && isImmutable(schemaTree[key]?.immutable)
+      });
+      return;
+    }
+
+    // mongoose always sets the discriminator key of a discriminator's documents, so it can be used to narrow unions.
+    // Discriminator models set it when creating documents, but embedded discriminators need it to pick the subdocument type.
+    if (key === discriminatorMapping?.key) {
+      template += formatKeyEntry({
+        key,
+        val: JSON.stringify(discriminatorMapping.value),
+        isOptional: isCreateInput && !isSubdocument
+      });
+      return;
+    }
+
     const val = schemaTree[key];
     template += parseKey(key, val);
   });
 
+  // depending on the mongoose version, timestamp paths may not have been added to the schema tree
+  timestampFields
+    .filter(field => !(field in schemaTree))
+    .forEach(field => {
+      template += formatKeyEntry({ key: field, val: "Date" });
+    });
+
   template += footer;
 
   return template;
 };
 
-interface LoadedSchemas {
+export interface LoadedSchemas {
   [modelName: string]: mongoose.Schema;
 }
 
-export const loadSchemas = (modelsPaths: string[]) => {
+// Pass `modelFilePaths` to collect the path of the file each model was loaded from, and `baseModelNames` to collect the
+// name of the base model of each discriminator
+export const loadSchemas = (
+  modelsPaths: string[],
+  diagnostics: Diagnostic[] = [],
+  modelFilePaths: { [modelName: string]: string } = {},
+  baseModelNames: { [modelName: string]: string } = {}
+) => {
   const schemas: LoadedSchemas = {};
 
-  const checkAndRegisterModel = (obj: any): boolean => {
-    if (!obj?.modelName || !obj?.schema) return false;
-    schemas[obj.modelName] = obj.schema;
-    return true;
-  };
-
   modelsPaths.forEach((singleModelPath: string) => {
+    const checkAndRegisterModel = (obj: any): boolean => {
+      if (!obj?.modelName || !obj?.schema) return false;
+      // models re-exported by another file (i.e. an index file) belong to the file they were first loaded from
+      const loadedFromPath = modelFilePaths[obj.modelName];
+      if (loadedFromPath && loadedFromPath !== singleModelPath) return false;
+
+      schemas[obj.modelName] = obj.schema;
+      modelFilePaths[obj.modelName] = singleModelPath;
+      if (obj.baseModelName) baseModelNames[obj.modelName] = obj.baseModelName;
+
+      // discriminators (created with `Model.discriminator()`) don't need to be exported, they're found on their base model
+      Object.values(obj.discriminators ?? {}).forEach(checkAndRegisterModel);
+      return true;
+    };
+
     let exportedData;
     try {
       exportedData = require(singleModelPath);
@@ -559,11 +955,49 @@ export const loadSchemas = (modelsPaths: string[]) => {
 
     const schemaCount = Object.keys(schemas).length - prevSchemaCount;
     if (schemaCount === 0) {
-      console.warn(
-        `A module was found at ${singleModelPath}, but no new exported models were found. If this file contains a Mongoose schema, ensure it is exported and its name does not conflict with others.`
-      );
+      diagnostics.push({
+        level: "warning",
+        message: `A module was found at ${singleModelPath}, but no new exported models were found. If this file contains a Mongoose schema, ensure it is exported and its name does not conflict with others.`,
+        strictId: path.relative(process.cwd(), singleModelPath)
+      });
     }
   });
 
   return schemas;
 };
+
+// Remove model files from the require cache and deregister the models they export, so that a subsequent
+// `loadSchemas` call re-evaluates them. Returns the names of the models that were removed.
+export const unloadSchemas = (modelsPaths: string[]) => {
+  const unloadedModelNames: string[] = [];
+
+  modelsPaths.forEach((singleModelPath: string) => {
+    const cachedModule = require.cache[singleModelPath];
+    if (!cachedModule) return;
+
+    delete require.cache[singleModelPath];
+
+    const exportedData = cachedModule.exports ?? {};
+    const unloadModel = (obj: any) => {
+      if (!obj?.modelName || !obj?.schema || unloadedModelNames.includes(obj.modelName)) return;
+
+      // mongoose throws an OverwriteModelError if a model name is registered twice, so remove it from both its
+      // connection and the mongoose instance it was created with
+      if (obj.db?.models?.[obj.modelName]) obj.db.deleteModel(obj.modelName);
+      if (obj.base?.models?.[obj.modelName]) delete obj.base.models[obj.modelName];
+
+      // the base model may be left loaded (i.e. if it is declared in another file), so the discriminator needs to be
+      // removed from it for `Model.discriminator()` not to throw when the file is loaded again
+      const baseModel = obj.baseModelName ? obj.db?.models?.[obj.baseModelName] : undefined;
+      if (baseModel?.discriminators) delete baseModel.discriminators[obj.modelName];
+      if (baseModel?.schema.discriminators) delete baseModel.schema.discriminators[obj.modelName];
+
+      unloadedModelNames.push(obj.modelName);
+      Object.values(obj.discriminators ?? {}).forEach(unloadModel);
+    };
+
+    [exportedData, ...Object.values(exportedData)].forEach(unloadModel);
+  });
+
+  return unloadedModelNames;
+};
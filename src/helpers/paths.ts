@@ -1,26 +1,79 @@
 import glob from "glob";
 import path from "path";
 import * as fs from "fs";
+import { validateConfig } from "./config";
+import { registerUserTs } from "./tsReader";
+
+// searched in this order, the first file found is used
+export const CONFIG_FILE_NAMES = [
+  "mtgen.config.json",
+  "mtgen.config.js",
+  "mtgen.config.cjs",
+  "mtgen.config.ts",
+  "package.json"
+];
+
+const loadConfigFile = (configPath: string, projectPath: string) => {
+  const { base, ext } = path.parse(configPath);
+
+  if (base === "package.json") {
+    const packageJson = JSON.parse(fs.readFileSync(configPath, "utf8"));
+    return packageJson.mtgen;
+  }
+
+  if (ext === ".json") return JSON.parse(fs.readFileSync(configPath, "utf8"));
 
-export const getConfigFromFile = (configPath?: string): object => {
-  // if no path provided, check root path for mtgen.config.json file. If doesnt exist, return empty object.
-  if (!configPath) {
-    const defaultPath = path.join(process.cwd(), "mtgen.config.json");
-    if (glob.sync(defaultPath).length === 0) return {};
+  // TS configs are loaded through the same ts-node registration used for the user's models
+  let cleanupTs: (() => void) | null = null;
+  if (ext === ".ts") cleanupTs = registerUserTs(projectPath);
 
-    configPath = defaultPath;
+  try {
+    const exportedConfig = require(configPath);
+    return exportedConfig?.default ?? exportedConfig;
+  } finally {
+    cleanupTs?.();
   }
+};
 
-  const { dir, base } = path.parse(configPath);
+// `projectPath` is the tsconfig used to load `mtgen.config.ts` files
+export const getConfigFromFile = (configPath?: string, projectPath = "./"): object => {
+  let configFilePath: string | undefined;
 
-  if (!base) configPath = path.join(dir, "mtgen.config.json");
-  else if (base !== "mtgen.config.json")
-    throw new Error(
-      `${base} is not a valid config filename. Ensure to provide a path to a mtgen.config.json file or its parent folder.`
+  if (configPath && !fs.existsSync(configPath))
+    throw new Error(`No mtgen config file found at path "${configPath}".`);
+
+  if (!configPath || fs.statSync(configPath).isDirectory()) {
+    // if no path provided, check root path for a config file. If none exist, return empty object.
+    const folderPath = path.resolve(configPath ?? process.cwd());
+
+    configFilePath = CONFIG_FILE_NAMES.map(fileName => path.join(folderPath, fileName)).find(
+      filePath => {
+        if (!fs.existsSync(filePath)) return false;
+        // package.json is only used if it contains an "mtgen" key
+        if (path.basename(filePath) !== "package.json") return true;
+        return JSON.parse(fs.readFileSync(filePath, "utf8")).mtgen !== undefined;
+      }
     );
 
-  const rawConfig = fs.readFileSync(configPath, "utf8");
-  return JSON.parse(rawConfig);
+    if (!configFilePath) {
+      if (!configPath) return {};
+      throw new Error(`No mtgen config file found in folder "${configPath}".`);
+    }
+  } else {
+    const { base } = path.parse(configPath);
+    if (!CONFIG_FILE_NAMES.includes(base))
+      throw new Error(
+        `${base} is not a valid config filename. Ensure to provide a path to a mtgen.config.json, mtgen.config.js, mtgen.config.cjs, mtgen.config.ts or package.json file, or its parent folder.`
+      );
+
+    configFilePath = path.resolve(configPath);
+  }
+
+  const config = loadConfigFile(configFilePath, projectPath);
+  if (config === undefined) throw new Error(`No "mtgen" key found in ${configFilePath}.`);
+
+  validateConfig(config, configFilePath);
+  return config;
 };
 
 export const getModelsPaths = (basePath?: string): string[] => {
@@ -77,3 +130,16 @@ export const cleanOutputPath = (outputPath: string) => {
 
   return path.join(folderPath, genFileName);
 };
+
+// used instead of `cleanOutputPath` when output is split into one file per model
+export const cleanOutputFolderPath = (outputPath: string) => {
+  const { ext } = path.parse(outputPath);
+
+  if (ext !== "") {
+    throw new Error(
+      "Invalid --output argument. When splitting output into one file per model, please provide a folder path."
+    );
+  }
+
+  return path.normalize(outputPath);
+};
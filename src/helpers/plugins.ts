@@ -0,0 +1,62 @@
+import { AfterGenerateContext, MtgenPlugin, TypeMapper } from "../types";
+
+const getPluginName = (plugin: MtgenPlugin, index: number) => plugin.name ?? `plugins[${index}]`;
+
+// Plugins are passed either as module paths, resolved from the current working directory like every other path in the
+// config (so they can be local files or packages installed in the user's project), or as plugin objects when using
+// the programmatic API. TS plugins require `registerUserTs` to have been called first.
+export const loadPlugins = (plugins: (string | MtgenPlugin)[] = []): MtgenPlugin[] =>
+  plugins.map((pluginOrPath, index) => {
+    let plugin = pluginOrPath;
+
+    if (typeof pluginOrPath === "string") {
+      let pluginPath: string;
+      try {
+        pluginPath = require.resolve(pluginOrPath, { paths: [process.cwd()] });
+      } catch {
+        throw new Error(`Could not find plugin "${pluginOrPath}" from ${process.cwd()}`);
+      }
+
+      const pluginModule = require(pluginPath);
+      plugin = pluginModule.default ?? pluginModule;
+    }
+
+    if (!plugin || typeof plugin !== "object" || (!plugin.mapType && !plugin.afterGenerate)) {
+      const name = typeof pluginOrPath === "string" ? pluginOrPath : `plugins[${index}]`;
+      throw new Error(
+        `Plugin "${name}" must export an object with a \`mapType\` and/or \`afterGenerate\` hook.`
+      );
+    }
+
+    return plugin;
+  });
+
+// Combine the plugins' `mapType` hooks. The first plugin returning a type wins, if none do the built-in conversion
+// is used.
+export const createTypeMapper = (plugins: MtgenPlugin[]): TypeMapper | undefined => {
+  const pluginsWithMapType = plugins.filter(plugin => plugin.mapType);
+  if (pluginsWithMapType.length === 0) return undefined;
+
+  return context => {
+    for (const plugin of pluginsWithMapType) {
+      const mappedType = plugin.mapType!(context);
+      if (mappedType !== undefined) return mappedType;
+    }
+
+    return undefined;
+  };
+};
+
+export const runAfterGenerate = (plugins: MtgenPlugin[], context: AfterGenerateContext) => {
+  plugins.forEach((plugin, index) => {
+    if (!plugin.afterGenerate) return;
+
+    try {
+      plugin.afterGenerate(context);
+    } catch (error) {
+      throw new Error(
+        `Plugin "${getPluginName(plugin, index)}" failed in afterGenerate: ${(error as Error).message}`
+      );
+    }
+  });
+};
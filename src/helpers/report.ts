@@ -0,0 +1,120 @@
+import path from "path";
+
+import * as parser from "./parser";
+import { Fallback, ModelReport, ModelTypes } from "../types";
+
+export type ReportFormat = "json" | "text";
+export const REPORT_FORMATS: ReportFormat[] = ["json", "text"];
+
+const FUNCTION_TYPES = [
+  { funcType: "methods", kind: "method" },
+  { funcType: "statics", kind: "static" },
+  { funcType: "query", kind: "query" }
+] as const;
+
+const MODEL_NOT_FOUND = "model not found by tsReader";
+
+// returns the schema paths typed as `any`. Mongoose casts `{}`, `Object` & untyped arrays to Mixed, which matches the
+// cases where `convertBaseTypeToTs` returns `any`. Recursive subdocuments are typed using the schema they reference,
+// so a schema is only visited once along each path.
+const getMixedPaths = (schema: any, prefix = "", visitedSchemas = new Set<any>()): string[] => {
+  const mixedPaths: string[] = [];
+  visitedSchemas.add(schema);
+
+  schema.eachPath((schemaPath: string, schemaType: any) => {
+    const fullPath = prefix + schemaPath;
+
+    // subdocuments & subdocument arrays
+    if (schemaType.schema) {
+      if (!visitedSchemas.has(schemaType.schema))
+        mixedPaths.push(...getMixedPaths(schemaType.schema, `${fullPath}.`, visitedSchemas));
+      return;
+    }
+
+    const isMixed =
+      schemaType.instance === "Mixed" ||
+      (schemaType.instance === "Array" && schemaType.caster?.instance === "Mixed");
+
+    // map values are listed as `<path>.$*`
+    if (isMixed) mixedPaths.push(fullPath.replace(/\.\$\*$/, ""));
+  });
+
+  // the same schema can be used by sibling paths, which are still listed
+  visitedSchemas.delete(schema);
+  return mixedPaths;
+};
+
+// Lists every member of the generated types that fell back to `any`, for each model
+export const getReport = ({
+  schemas,
+  modelTypes,
+  modelFilePaths,
+  noMongoose = false
+}: {
+  schemas: parser.LoadedSchemas;
+  modelTypes: ModelTypes;
+  modelFilePaths: { [modelName: string]: string };
+  noMongoose?: boolean;
+}): ModelReport[] =>
+  Object.keys(schemas).map(modelName => {
+    const schema: any = schemas[modelName];
+    const types = modelTypes[modelName] as ModelTypes[string] | undefined;
+
+    const fallbacks: Fallback[] = getMixedPaths(schema).map(mixedPath => ({
+      path: mixedPath,
+      kind: "mixed",
+      reason: "Mixed schema type"
+    }));
+
+    // methods, statics & query helpers are only generated with mongoose types
+    if (!noMongoose) {
+      FUNCTION_TYPES.forEach(({ funcType, kind }) => {
+        Object.keys(schema[funcType] ?? {}).forEach(funcName => {
+          // skipped by `parseFunctions`
+          if (funcName === "initializeTimestamps" || types?.[funcType][funcName]) return;
+
+          fallbacks.push({
+            path: `${funcType}.${funcName}`,
+            kind,
+            reason: types ? `${kind} not found by tsReader in the model file` : MODEL_NOT_FOUND
+          });
+        });
+      });
+    }
+
+    // lean types only include virtuals if the schema sets `toObject({ virtuals: true })`
+    if (!noMongoose || parser.getShouldLeanIncludeVirtuals(schema)) {
+      const rootAliases = parser.getRootAliases(schema);
+      Object.keys(schema.virtuals).forEach(virtualName => {
+        const virtualType = types?.virtuals[virtualName];
+        if (virtualName === "id" || (virtualType && virtualType !== "void")) return;
+        // aliases are typed like the path they alias
+        if (virtualName in rootAliases) return;
+
+        let reason = "virtual getter not found by tsReader in the model file";
+        if (noMongoose) reason = "model files are not parsed when using no-mongoose";
+        else if (!types) reason = MODEL_NOT_FOUND;
+        else if (virtualType === "void") reason = "virtual return type void";
+
+        fallbacks.push({ path: `virtuals.${virtualName}`, kind: "virtual", reason });
+      });
+    }
+
+    return {
+      modelName,
+      filePath: path.relative(process.cwd(), types?.filePath ?? modelFilePaths[modelName]),
+      fallbacks
+    };
+  });
+
+export const formatReport = (report: ModelReport[], format: ReportFormat) => {
+  if (format === "json") return JSON.stringify(report, null, 2);
+
+  return report
+    .map(({ modelName, filePath, fallbacks }) => {
+      const header = `${modelName} (${filePath}): ${fallbacks.length} fallback(s) to \`any\``;
+      const lines = fallbacks.map(fallback => `  - ${fallback.path}: ${fallback.reason}`);
+      return [header, ...lines].join("\n");
+    })
+    .join("\n\n");
+};
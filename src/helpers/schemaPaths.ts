@@ -0,0 +1,327 @@
+import _ from "lodash";
+
+import * as parser from "./parser";
+import * as templates from "./templates";
+
+/**
+ * A path of a schema in dot notation (i.e. `address.city`), typed using the model's lean type
+ */
+export type SchemaPath = {
+  path: string;
+  /** TS type of the value, as an indexed access type on the lean type (i.e. `User["address"]["city"]`) */
+  type: string;
+  /** TS type of the elements, for array paths */
+  elementType?: string;
+  /** TS type of the values, for map paths */
+  mapValueType?: string;
+  /** The kind of value (of the elements for arrays & maps), used to pick the operators applying to the path */
+  kind?: "number" | "string" | "date";
+  /** Nested paths and subdocuments are listed along with each of their paths */
+  isNested: boolean;
+  /** Schema of the elements, for subdocument array paths */
+  subdocumentSchema?: any;
+};
+
+const isVirtual = (val: any) => Boolean(val?.path && val.setters && val.getters);
+
+// subdocuments are replaced with their schema by `parseChildSchemas`. Recursive subdocuments (i.e. `children: [CategorySchema]`)
+// only reference the type of their schema, so their paths are listed without the paths they contain.
+const isSubdocument = (val: any) => Boolean(val?._inferredInterfaceName && !val._isRecursive);
+
+// nested paths (i.e. `{ address: { city: String } }`) are plain objects without a type. A `type` key holding an object
+// is a nested path named `type`, as handled by `getParseKeyFn`.
+const isNestedPath = (val: any) =>
+  _.isPlainObject(val) &&
+  !_.isEmpty(val) &&
+  !val._isRecursive &&
+  (val.type === undefined || (_.isPlainObject(val.type) && !_.isEmpty(val.type)));
+
+// returns the element definition of array paths, i.e. `{ type: String }` for `{ type: [{ type: String }] }`
+const getArrayElement = (val: any): { element: any } | undefined => {
+  if (Array.isArray(val)) return { element: val[0] };
+  if (Array.isArray(val?.type)) return { element: val.type[0] };
+  if (val === Array || val?.type === Array) return { element: undefined };
+  return undefined;
+};
+
+const getValueKind = (key: string, val: any): SchemaPath["kind"] => {
+  if (val === undefined || val?._inferredInterfaceName || val?.type === Map) return undefined;
+
+  const definition = typeof val === "function" || typeof val === "string" ? { type: val } : val;
+  const leanType = parser.convertBaseTypeToTs(key, definition, false);
+
+  if (leanType === "number" || leanType === "bigint") return "number";
+  if (leanType === "string" || leanType?.startsWith(`"`)) return "string";
+  if (leanType === "Date") return "date";
+  return undefined;
+};
+
+// Lists the paths of a schema by walking the same tree `parseSchema` generates the lean type from. With
+// `isCreateInput`, the paths are typed using the `CreateInput` type instead, so the paths it omits are skipped. With
+// `positional`, the fields of array elements are listed using the `$` and `$[]` positional operators of updates (i.e.
+// `friends.$.name`), otherwise they're listed like in queries (`friends.name`).
+export const getSchemaPaths = ({
+  schema,
+  modelName,
+  isCreateInput = false,
+  positional = false
+}: {
+  schema: any;
+  modelName: string;
+  isCreateInput?: boolean;
+  positional?: boolean;
+}) => {
+  const schemaPaths: SchemaPath[] = [];
+
+  // eslint-disable-next-line @typescript-eslint/no-use-before-define
+  const walkSchema = (childSchema: any, prefixes: string[], parentType: string) => walk(
+    parser.getSchemaTree(childSchema, childSchema._inferredInterfaceName ?? modelName),
+    prefixes,
+    parentType,
+    isCreateInput ? parser.getTimestampFields(childSchema) : []
+  );
+
+  const walk = (tree: any, prefixes: string[], parentType: string, skippedKeys: string[] = []) => {
+    Object.keys(tree).forEach(key => {
+      const val = tree[key];
+      if (key === "__v" || isVirtual(val) || skippedKeys.includes(key)) return;
+      if (isCreateInput && key === "_id" && val?.auto) return;
+
+      const type = `${parentType}["${key}"]`;
+      const paths = prefixes.map(prefix => prefix + key);
+      const arrayElement = getArrayElement(val);
+
+      if (arrayElement) {
+        const { element } = arrayElement;
+        const elementType = `NonNullable<${type}>[number]`;
+        const kind = getValueKind(key, element);
+        const subdocumentSchema = isSubdocument(element) ? element : undefined;
+        paths.forEach(path =>
+          schemaPaths.push({
+            path,
+            type,
+            elementType,
+            kind,
+            isNested: isSubdocument(element),
+            subdocumentSchema
+          })
+        );
+
+        const elementPaths = positional ?
+          _.flatMap(paths, path => [`${path}.$`, `${path}.$[]`]) :
+          [];
+        elementPaths.forEach(path =>
+          schemaPaths.push({ path, type: elementType, kind, isNested: isSubdocument(element) })
+        );
+
+        if (isSubdocument(element)) {
+          const elementPrefixes = positional ?
+            elementPaths.map(path => `${path}.`) :
+            paths.map(path => `${path}.`);
+          walkSchema(element, elementPrefixes, elementType);
+        }
+
+        return;
+      }
+
+      if (isSubdocument(val) || isNestedPath(val)) {
+        paths.forEach(path => schemaPaths.push({ path, type, isNested: true }));
+        const nestedPrefixes = paths.map(path => `${path}.`);
+        if (isSubdocument(val)) walkSchema(val, nestedPrefixes, `NonNullable<${type}>`);
+        else walk(val, nestedPrefixes, `NonNullable<${type}>`);
+        return;
+      }
+
+      if (val?.type === Map) {
+        const mapValueType = `NonNullable<${type}> extends Map<string, infer V> ? V : never`;
+        const kind = Array.isArray(val.of) ? undefined : getValueKind(key, val.of);
+        paths.forEach(path => schemaPaths.push({ path, type, mapValueType, kind, isNested: false }));
+        return;
+      }
+
+      const kind = getValueKind(key, val);
+      paths.forEach(path => schemaPaths.push({ path, type, kind, isNested: false }));
+    });
+  };
+
+  walkSchema(schema, [""], isCreateInput ? `${modelName}CreateInput` : modelName);
+  return schemaPaths;
+};
+
+const formatPathEntries = (entries: { path: string; type: string }[], isOptional = false) =>
+  entries
+    .map(({ path, type }) => `${JSON.stringify(path)}${isOptional ? "?" : ""}: ${type};\n`)
+    .join("");
+
+// Returns the `${modelName}Update` type, typing the update operators of `Model.updateOne()` & co with the paths they
+// apply to. The values of all paths and the elements of array paths are listed in separate types, which the operators
+// map over. Mongoose casts updates like it casts new documents, so they're typed using the `CreateInput` type.
+export const getUpdateType = (modelName: string, schema: any) => {
+  const schemaPaths = getSchemaPaths({ schema, modelName, isCreateInput: true, positional: true });
+
+  const valuesTypeName = `${modelName}UpdateValues`;
+  const elementsTypeName = `${modelName}UpdateArrayElements`;
+
+  // `_id`s can't be updated
+  const valueEntries = schemaPaths.filter(({ path }) => path !== "_id" && !path.endsWith("._id"));
+  const numberEntries = schemaPaths
+    .filter(({ kind, elementType }) => kind === "number" && !elementType)
+    .map(({ path, type }) => ({ path, type: `NonNullable<${type}>` }));
+  const elementEntries = schemaPaths
+    .filter(({ elementType }) => elementType)
+    .map(({ path, elementType }) => ({ path, type: elementType as string }));
+
+  const element = `${elementsTypeName}[path]`;
+  const mapElements = (type: string) => `{ [path in keyof ${elementsTypeName}]?: ${type} }`;
+
+  return (
+    `/** Values of the paths of \`${modelName}Update\` */\n` +
+    `export type ${valuesTypeName} = {\n${formatPathEntries(valueEntries)}}\n\n` +
+    `/** Elements of the array paths of \`${modelName}Update\` */\n` +
+    `export type ${elementsTypeName} = {\n${formatPathEntries(elementEntries)}}\n\n` +
+    templates.getUpdateDocs(modelName) +
+    `\nexport type ${modelName}Update = {\n` +
+    `$set?: Partial<${valuesTypeName}>;\n` +
+    `$unset?: { [path in keyof ${valuesTypeName}]?: "" | 1 | true };\n` +
+    `$inc?: {\n${formatPathEntries(numberEntries, true)}};\n` +
+    `$push?: ${mapElements(`${element} | { $each: ${element}[] }`)};\n` +
+    `$addToSet?: ${mapElements(`${element} | { $each: ${element}[] }`)};\n` +
+    `$pull?: ${mapElements(`${element} | Partial<${element}> | { $in: ${element}[] }`)};\n` +
+    "}"
+  );
+};
+
+// Returns the query operators applying to a value of type `value`, depending on its kind
+const getOperators = (value: string, kind: SchemaPath["kind"]) => {
+  const operators = [`$eq?: ${value}`, `$ne?: ${value}`, `$in?: ${value}[]`, `$nin?: ${value}[]`];
+  if (kind)
+    operators.push(`$gt?: ${value}`, `$gte?: ${value}`, `$lt?: ${value}`, `$lte?: ${value}`);
+  if (kind === "string") operators.push("$regex?: string | RegExp", "$options?: string");
+
+  return operators;
+};
+
+// Returns the condition a filter accepts for a path: a value (or a regex for strings) or an object of operators. Array
+// paths match arrays equal to the value, or containing an element matching the condition. The elements of
+// subdocument arrays are matched using the filter type of their subdocuments (`elementFilterType`).
+const getConditionType = ({
+  value,
+  kind,
+  isArray = false,
+  elementFilterType
+}: {
+  value: string;
+  kind: SchemaPath["kind"];
+  isArray?: boolean;
+  elementFilterType?: string;
+}) => {
+  const values = [value, ...(kind === "string" ? ["RegExp"] : []), ...(isArray ? [`${value}[]`] : [])];
+  const operators = [...getOperators(value, kind), "$exists?: boolean"];
+
+  if (isArray) {
+    const elementCondition = elementFilterType ?? `{ ${getOperators(value, kind).join("; ")} }`;
+    operators.push(`$all?: ${value}[]`, "$size?: number", `$elemMatch?: ${elementCondition}`);
+  }
+
+  // `$not` negates the operators of the path, or a regex for strings
+  const operatorsType = `{ ${operators.join("; ")} }`;
+  const negatedType = kind === "string" ? `RegExp | ${operatorsType}` : operatorsType;
+
+  return `${values.join(" | ")} | { ${[...operators, `$not?: ${negatedType}`].join("; ")} }`;
+};
+
+// the filter type of subdocument arrays' elements, i.e. `UserFriendFilter`
+const getSubdocumentFilterTypeName = (subdocumentSchema: any) =>
+  `${subdocumentSchema._inferredInterfaceName}Filter`;
+
+// Returns the filter type of a schema (of a model or of the subdocuments of an array) from its paths
+const getSchemaFilterType = (typeName: string, schemaPaths: SchemaPath[], isSubdocument: boolean) => {
+  const mapPaths = schemaPaths.filter(({ mapValueType }) => mapValueType);
+  const valuesTypeName = `${typeName}FilterValues`;
+
+  // map values are listed under `<path>.$*`, like mongoose lists them in `schema.paths`
+  const valueEntries = [
+    ...schemaPaths.map(({ path, type, elementType }) => ({ path, type: elementType ?? type })),
+    ...mapPaths.map(({ path, mapValueType }) => ({ path: `${path}.$*`, type: mapValueType as string }))
+  ];
+
+  const pathConditions = schemaPaths.map(
+    ({ path, kind, elementType, mapValueType, subdocumentSchema }) => ({
+      path,
+      condition: getConditionType({
+        value: `${valuesTypeName}[path]`,
+        kind: mapValueType ? undefined : kind,
+        isArray: Boolean(elementType),
+        elementFilterType: subdocumentSchema ?
+          getSubdocumentFilterTypeName(subdocumentSchema) :
+          undefined
+      })
+    })
+  );
+  const pathTypes = Object.entries(_.groupBy(pathConditions, "condition")).map(
+    ([condition, groupPaths]) =>
+      `{\n[path in ${groupPaths.map(({ path }) => JSON.stringify(path)).join(" | ")}]?: ${condition};\n}`
+  );
+
+  // map values are queried using `<path>.<key>`
+  const mapTypes = mapPaths.map(({ path, kind }) => {
+    const condition = getConditionType({ value: `${valuesTypeName}["${path}.$*"]`, kind });
+    return `{\n[path in \`${path}.\${string}\`]?: ${condition};\n}`;
+  });
+
+  const logicalOperators = ["$and", "$or", "$nor"]
+    .map(operator => `${operator}?: ${typeName}Filter[];\n`)
+    .join("");
+
+  return (
+    `/** Values of the paths of \`${typeName}Filter\`, or of their elements for array paths */\n` +
+    `export type ${valuesTypeName} = {\n${formatPathEntries(valueEntries)}}\n\n` +
+    (isSubdocument ? templates.getSubdocumentFilterDocs(typeName) : templates.getFilterDocs(typeName)) +
+    `\nexport type ${typeName}Filter = ` +
+    [...pathTypes, ...mapTypes, `{\n${logicalOperators}}`].join(" & ")
+  );
+};
+
+// Returns the `${modelName}Filter` type, typing the filters of `Model.find()` & co with every path in dot notation
+// and the operators applying to its value. The values of the paths (the elements for array paths) are listed in a
+// separate type, and paths accepting the same condition are grouped in a mapped type over this type. Subdocument arrays
+// (at any depth) get their own filter types, which `$elemMatch` matches their elements with.
+export const getFilterType = (modelName: string, schema: any) => {
+  const schemaPaths = getSchemaPaths({ schema, modelName });
+
+  const subdocumentSchemas = _.uniqBy(
+    schemaPaths
+      .map(({ subdocumentSchema }) => subdocumentSchema)
+      .filter(subdocumentSchema => subdocumentSchema),
+    "_inferredInterfaceName"
+  );
+  const subdocumentFilterTypes = subdocumentSchemas.map(subdocumentSchema => {
+    const typeName: string = subdocumentSchema._inferredInterfaceName;
+    return getSchemaFilterType(
+      typeName,
+      getSchemaPaths({ schema: subdocumentSchema, modelName: typeName }),
+      true
+    );
+  });
+
+  return [...subdocumentFilterTypes, getSchemaFilterType(modelName, schemaPaths, false)].join(
+    "\n\n"
+  );
+};
+
+// Returns the `${modelName}Paths` union of every path in dot notation, including nested paths & subdocuments, along
+// with the `${modelName}Sort` and `${modelName}Projection` types built on it
+export const getPathsTypes = (modelName: string, schema: any) => {
+  const pathsUnion = getSchemaPaths({ schema, modelName })
+    .map(({ path }) => JSON.stringify(path))
+    .join(" | ");
+
+  return (
+    templates.getPathsDocs(modelName) +
+    `\nexport type ${modelName}Paths = ${pathsUnion || "never"}\n\n` +
+    `/** Sort of \`${modelName}Query.sort()\` */\n` +
+    `export type ${modelName}Sort = { [path in ${modelName}Paths]?: 1 | -1 | "asc" | "desc" | "ascending" | "descending" }\n\n` +
+    `/** Projection of \`${modelName}Query.select()\` & \`${modelName}Model.find()\` */\n` +
+    `export type ${modelName}Projection = { [path in ${modelName}Paths]?: 0 | 1 | boolean }`
+  );
+};
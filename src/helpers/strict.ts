@@ -0,0 +1,43 @@
+import path from "path";
+
+import { Diagnostic, ModelReport } from "../types";
+
+// Mixed schema types are explicitly typed as `any` by the user, so only fallbacks the generator couldn't resolve fail
+const STRICT_FALLBACK_KINDS = ["method", "static", "query", "virtual"];
+
+// Throws an error listing every issue found during generation that isn't in `allow`. Issues are identified by model
+// file path (for files without models or with unparseable model initializations) or by `<ModelName>.<path>` for
+// fallbacks to `any`.
+export const checkStrict = ({
+  diagnostics,
+  report,
+  allow = []
+}: {
+  diagnostics: Diagnostic[];
+  report: ModelReport[];
+  allow?: string[];
+}) => {
+  const allowedIds = new Set(allow.map(id => path.normalize(id)));
+  const issues: string[] = [];
+
+  diagnostics.forEach(({ message, strictId }) => {
+    if (!strictId || allowedIds.has(path.normalize(strictId))) return;
+    issues.push(`${strictId}: ${message}`);
+  });
+
+  report.forEach(({ modelName, filePath, fallbacks }) => {
+    fallbacks.forEach(fallback => {
+      const id = `${modelName}.${fallback.path}`;
+      if (!STRICT_FALLBACK_KINDS.includes(fallback.kind) || allowedIds.has(id)) return;
+
+      issues.push(`${id} (${filePath}) falls back to \`any\`: ${fallback.reason}`);
+    });
+  });
+
+  if (issues.length > 0) {
+    throw new Error(
+      `Strict mode failed with ${issues.length} issue(s). Fix them or add them to "strictAllow" in mtgen.config.json:\n` +
+        issues.map(issue => `  - ${issue}`).join("\n")
+    );
+  }
+};
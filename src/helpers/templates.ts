@@ -13,6 +13,12 @@ export function IsPopulated<T>(doc: T | mongoose.Types.ObjectId): doc is T {
   return doc instanceof mongoose.Document;
 }
 
+/**
+ * Key under which \`Selectable\` types keep the fields declared with \`select: false\`, so that \`.select("+field")\` can
+ * add them back. It only exists in types, documents never have it.
+ */
+export declare const deselectedFields: unique symbol;
+
 /**
  * Helper type used by \`PopulatedDocument\`. Returns the parent property of a string 
  * representing a nested property (i.e. \`friend.user\` -> \`friend\`)
@@ -76,22 +82,92 @@ T
 export const QUERY_POPULATE = `/**
  * Helper types used by the populate overloads
  */
-type Unarray<T> = T extends Array<infer U> ? U : T;
 type Modify<T, R> = Omit<T, keyof R> & R;
 
 /**
- * Augment mongoose with Query.populate overloads
+ * Narrows the documents of a query result to the populated paths. Projected documents aren't assignable to the query's
+ * document type, so any object is narrowed.
+ */
+type PopulatedResult<ResultType, T> = ResultType extends Array<infer U>
+  ? (U extends object ? Array<PopulatedDocument<U, T>> : ResultType)
+  : ResultType extends object
+  ? PopulatedDocument<ResultType, T>
+  : ResultType;
+
+/**
+ * Helper types used by the select overloads. Projections are converted to a union of paths, where excluded paths are
+ * prefixed with \`-\` (i.e. \`"name -email"\` and \`{ name: 1, email: 0 }\` -> \`"name" | "-email"\`)
+ */
+type SplitSelect<S extends string> = S extends \`\${infer Head} \${infer Rest}\` ? Head | SplitSelect<Rest> : S;
+type ProjectionPaths<P> = { [K in keyof P]: P[K] extends 0 | false ? \`-\${K & string}\` : K & string }[keyof P];
+type RootProperty<T> = T extends \`\${infer P}.\${string}\` ? P : T;
+type ExcludedProperty<T> = T extends \`-\${infer P}\` ? (P extends \`\${string}.\${string}\` ? never : P) : never;
+type IncludedProperty<T> = T extends \`-\${string}\` | \`+\${string}\` | "" ? never : RootProperty<T>;
+/** Properties added back with \`+\` (i.e. \`"+password"\`), for fields declared with \`select: false\` */
+type AddedProperty<T> = T extends \`+\${infer P}\` ? RootProperty<P> : never;
+/** Properties holding the fields of a document, as opposed to its methods & the members of \`mongoose.Document\` */
+type FieldProperty<T> = Exclude<
+  { [K in keyof T]: T[K] extends Function ? never : K }[keyof T],
+  Exclude<keyof mongoose.Document, "_id">
+>;
+
+/**
+ * Narrows a document to the paths selected by a projection. Inclusive projections keep \`_id\` unless it's excluded,
+ * exclusive projections only remove the root properties they exclude.
+ */
+type ProjectedDocument<T, Paths extends string> = [IncludedProperty<Paths>] extends [never]
+  ? Omit<T, ExcludedProperty<Paths>>
+  : Omit<
+      T,
+      Exclude<
+        FieldProperty<T>,
+        IncludedProperty<Paths> | AddedProperty<Paths> | ("-_id" extends Paths ? never : "_id")
+      >
+    >;
+/** The \`select: false\` fields kept by \`Selectable\` types under the \`deselectedFields\` key, added back once they're selected */
+type SelectedFields<T, Paths extends string> = typeof deselectedFields extends keyof T
+  ? T extends { [deselectedFields]?: infer D }
+    ? Pick<D, Extract<IncludedProperty<Paths> | AddedProperty<Paths>, keyof D>>
+    : {}
+  : {};
+type SelectedDocument<T, Paths extends string> = ProjectedDocument<T, Paths> & SelectedFields<T, Paths>;
+type ProjectedResult<ResultType, Paths extends string> = ResultType extends Array<infer U>
+  ? Array<SelectedDocument<U, Paths>>
+  : ResultType extends object
+  ? SelectedDocument<ResultType, Paths>
+  : ResultType;
+
+/**
+ * Augment mongoose with Query.populate & Query.select overloads
  */
 declare module "mongoose" {
   interface Query<ResultType, DocType, THelpers = {}> {
     populate<T extends string>(path: T, select?: string | any, model?: string | Model<any, THelpers>, match?: any): Query<
-      ResultType extends Array<DocType> ? Array<PopulatedDocument<Unarray<ResultType>, T>> : (ResultType extends DocType ? PopulatedDocument<Unarray<ResultType>, T> : ResultType),
+      PopulatedResult<ResultType, T>,
       DocType,
       THelpers
     > & THelpers;
 
     populate<T extends string>(options: Modify<PopulateOptions, { path: T }> | Array<PopulateOptions>): Query<
-      ResultType extends Array<DocType> ? Array<PopulatedDocument<Unarray<ResultType>, T>> : (ResultType extends DocType ? PopulatedDocument<Unarray<ResultType>, T> : ResultType),
+      PopulatedResult<ResultType, T>,
+      DocType,
+      THelpers
+    > & THelpers;
+
+    select<S extends string>(arg: S | ReadonlyArray<S>): Query<
+      ProjectedResult<ResultType, SplitSelect<S>>,
+      DocType,
+      THelpers
+    > & THelpers;
+
+    select<P extends { [path: string]: 0 | 1 | boolean }>(arg: P): Query<
+      ProjectedResult<ResultType, ProjectionPaths<P>>,
+      DocType,
+      THelpers
+    > & THelpers;
+
+    projection<P extends { [path: string]: 0 | 1 | boolean }>(fields: P): Query<
+      ProjectedResult<ResultType, ProjectionPaths<P>>,
       DocType,
       THelpers
     > & THelpers;
@@ -122,6 +198,15 @@ export const getQueryHelpersDocs = (modelName: string) => `/**
  * This type represents \`${modelName}Schema.query\`. For most use cases, you should not need to use this type explicitly.
  */`;
 
+export const getSelectableQueriesDocs = (modelName: string) => `/**
+ * Queries of \`${modelName}Model\` returning documents without the fields declared with \`select: false\`
+ * 
+ * These take precedence over the queries of \`mongoose.Model\`. Select the fields explicitly to get them back:
+ * \`\`\`
+ * const ${modelName.charAt(0).toLowerCase() + modelName.slice(1)} = await ${modelName}.findOne(filter).select("+field");
+ * \`\`\`
+ */`;
+
 export const getModelDocs = (modelName: string) => `/**
  * Mongoose Model type
  * 
@@ -163,6 +248,79 @@ export const getLeanDocs = (modelName: string, fullName?: string) => `/**
  * \`\`\`
  */`;
 
+export const getSelectableDocs = (typeName: string, modelName: string, field: string) => `/**
+ * \`${typeName}\` without the fields declared with \`select: false\`, which queries leave out by default
+ * 
+ * Select these fields explicitly to get them back:
+ * \`\`\`
+ * const ${modelName.charAt(0).toLowerCase() + modelName.slice(1)} = await ${modelName}.findOne(filter).select("+${field}");
+ * \`\`\`
+ */`;
+
+export const getDeselectedFieldsDocs = (field: string) =>
+  `/** Types of the fields declared with \`select: false\`, added back to query results by \`.select("+${field}")\` */`;
+
+export const getAliasedDocs = (modelName: string, isToObjectAliased: boolean) => {
+  const docName = modelName.charAt(0).toLowerCase() + modelName.slice(1);
+  return `/**
+ * \`${modelName}\` along with the aliases of its paths, as returned by \`${docName}.toObject(${
+    isToObjectAliased ? "" : "{ virtuals: true }"
+  })\`
+ * 
+ * \`${modelName}\` only has the paths as stored in MongoDB, as returned by lean queries.
+ */`;
+};
+
+export const getCreateInputDocs = (modelName: string, isSubdocument = false) => `/**
+ * ${
+  isSubdocument ?
+    `Input of \`${modelName}\` subdocuments when creating their parent document` :
+    `Input of \`${modelName}Model.create()\``
+}
+ * 
+ * Fields with defaults and fields generated by Mongoose (\`_id\`, timestamps) are optional, virtuals are omitted.
+ */`;
+
+export const getUpdateDocs = (modelName: string) => `/**
+ * Update document of \`${modelName}Model.updateOne()\`, \`${modelName}Model.findOneAndUpdate()\` & co
+ * 
+ * Array elements can be updated using the \`$\` and \`$[]\` positional operators:
+ * \`\`\`
+ * const update: ${modelName}Update = { $set: { "friends.$.name": "Bob" } };
+ * \`\`\`
+ */`;
+
+export const getFilterDocs = (modelName: string) => `/**
+ * Filter of \`${modelName}Model.find()\`, \`${modelName}Model.findOne()\`, \`${modelName}Model.countDocuments()\` & co
+ * 
+ * Unlike \`mongoose.FilterQuery\`, only the paths of the schema are accepted:
+ * \`\`\`
+ * const filter: ${modelName}Filter = { "friends.nickname": { $regex: /^b/i } };
+ * \`\`\`
+ */`;
+
+export const getSubdocumentFilterDocs = (typeName: string) => `/**
+ * Filter of the \`${typeName}\` elements of subdocument arrays, used by \`$elemMatch\`
+ */`;
+
+export const getPathsDocs = (modelName: string) => `/**
+ * Every path of \`${modelName}\` in dot notation, including nested paths and subdocuments
+ * 
+ * Used to check the paths passed to \`select()\`, \`sort()\` & co:
+ * \`\`\`
+ * const sort: ${modelName}Sort = { _id: -1 };
+ * \`\`\`
+ */`;
+
+export const getDiscriminatorUnionDocs = (typeName: string, key: string) => `/**
+ * Union of \`${typeName}\` and the types of its discriminators
+ * 
+ * Narrow it using the discriminator key:
+ * \`\`\`
+ * if (${typeName.charAt(0).toLowerCase() + typeName.slice(1)}.${key} === "...") { ... }
+ * \`\`\`
+ */`;
+
 export const getSubdocumentDocs = (modelName: string, path: string) => `/**
  * Mongoose Subdocument type
  * 
@@ -20,6 +20,82 @@ homeId?: string;
 homeName?: string;
 }
 
+/**
+ * Input of `HomeModel.create()`
+ * 
+ * Fields with defaults and fields generated by Mongoose (`_id`, timestamps) are optional, virtuals are omitted.
+ */
+export type HomeCreateInput = {
+homeId?: string;
+homeName?: string;
+}
+
+/** Values of the paths of `HomeUpdate` */
+export type HomeUpdateValues = {
+"homeId": HomeCreateInput["homeId"];
+"homeName": HomeCreateInput["homeName"];
+}
+
+/** Elements of the array paths of `HomeUpdate` */
+export type HomeUpdateArrayElements = {
+}
+
+/**
+ * Update document of `HomeModel.updateOne()`, `HomeModel.findOneAndUpdate()` & co
+ * 
+ * Array elements can be updated using the `$` and `$[]` positional operators:
+ * ```
+ * const update: HomeUpdate = { $set: { "friends.$.name": "Bob" } };
+ * ```
+ */
+export type HomeUpdate = {
+$set?: Partial<HomeUpdateValues>;
+$unset?: { [path in keyof HomeUpdateValues]?: "" | 1 | true };
+$inc?: {
+};
+$push?: { [path in keyof HomeUpdateArrayElements]?: HomeUpdateArrayElements[path] | { $each: HomeUpdateArrayElements[path][] } };
+$addToSet?: { [path in keyof HomeUpdateArrayElements]?: HomeUpdateArrayElements[path] | { $each: HomeUpdateArrayElements[path][] } };
+$pull?: { [path in keyof HomeUpdateArrayElements]?: HomeUpdateArrayElements[path] | Partial<HomeUpdateArrayElements[path]> | { $in: HomeUpdateArrayElements[path][] } };
+}
+
+/** Values of the paths of `HomeFilter`, or of their elements for array paths */
+export type HomeFilterValues = {
+"homeId": Home["homeId"];
+"homeName": Home["homeName"];
+}
+
+/**
+ * Filter of `HomeModel.find()`, `HomeModel.findOne()`, `HomeModel.countDocuments()` & co
+ * 
+ * Unlike `mongoose.FilterQuery`, only the paths of the schema are accepted:
+ * ```
+ * const filter: HomeFilter = { "friends.nickname": { $regex: /^b/i } };
+ * ```
+ */
+export type HomeFilter = {
+[path in "homeId" | "homeName"]?: HomeFilterValues[path] | RegExp | { $eq?: HomeFilterValues[path]; $ne?: HomeFilterValues[path]; $in?: HomeFilterValues[path][]; $nin?: HomeFilterValues[path][]; $gt?: HomeFilterValues[path]; $gte?: HomeFilterValues[path]; $lt?: HomeFilterValues[path]; $lte?: HomeFilterValues[path]; $regex?: string | RegExp; $options?: string; $exists?: boolean; $not?: RegExp | { $eq?: HomeFilterValues[path]; $ne?: HomeFilterValues[path]; $in?: HomeFilterValues[path][]; $nin?: HomeFilterValues[path][]; $gt?: HomeFilterValues[path]; $gte?: HomeFilterValues[path]; $lt?: HomeFilterValues[path]; $lte?: HomeFilterValues[path]; $regex?: string | RegExp; $options?: string; $exists?: boolean } };
+} & {
+$and?: HomeFilter[];
+$or?: HomeFilter[];
+$nor?: HomeFilter[];
+}
+
+/**
+ * Every path of `Home` in dot notation, including nested paths and subdocuments
+ * 
+ * Used to check the paths passed to `select()`, `sort()` & co:
+ * ```
+ * const sort: HomeSort = { _id: -1 };
+ * ```
+ */
+export type HomePaths = "homeId" | "homeName"
+
+/** Sort of `HomeQuery.sort()` */
+export type HomeSort = { [path in HomePaths]?: 1 | -1 | "asc" | "desc" | "ascending" | "descending" }
+
+/** Projection of `HomeQuery.select()` & `HomeModel.find()` */
+export type HomeProjection = { [path in HomePaths]?: 0 | 1 | boolean }
+
 /**
  * Lean version of HomeDocument (type alias of `Home`)
  * 
@@ -111,10 +187,103 @@ homeName?: string;
  */
 export type Device = {
 name?: string;
-_id: mongoose.Types.ObjectId;
 home?: DeviceHome;
+_id: mongoose.Types.ObjectId;
+}
+
+/**
+ * Input of `DeviceHome` subdocuments when creating their parent document
+ * 
+ * Fields with defaults and fields generated by Mongoose (`_id`, timestamps) are optional, virtuals are omitted.
+ */
+export type DeviceHomeCreateInput = {
+homeId?: string;
+homeName?: string;
+}
+
+/**
+ * Input of `DeviceModel.create()`
+ * 
+ * Fields with defaults and fields generated by Mongoose (`_id`, timestamps) are optional, virtuals are omitted.
+ */
+export type DeviceCreateInput = {
+name?: string;
+home?: DeviceHomeCreateInput;
+}
+
+/** Values of the paths of `DeviceUpdate` */
+export type DeviceUpdateValues = {
+"name": DeviceCreateInput["name"];
+"home": DeviceCreateInput["home"];
+"home.homeId": NonNullable<DeviceCreateInput["home"]>["homeId"];
+"home.homeName": NonNullable<DeviceCreateInput["home"]>["homeName"];
+}
+
+/** Elements of the array paths of `DeviceUpdate` */
+export type DeviceUpdateArrayElements = {
 }
 
+/**
+ * Update document of `DeviceModel.updateOne()`, `DeviceModel.findOneAndUpdate()` & co
+ * 
+ * Array elements can be updated using the `$` and `$[]` positional operators:
+ * ```
+ * const update: DeviceUpdate = { $set: { "friends.$.name": "Bob" } };
+ * ```
+ */
+export type DeviceUpdate = {
+$set?: Partial<DeviceUpdateValues>;
+$unset?: { [path in keyof DeviceUpdateValues]?: "" | 1 | true };
+$inc?: {
+};
+$push?: { [path in keyof DeviceUpdateArrayElements]?: DeviceUpdateArrayElements[path] | { $each: DeviceUpdateArrayElements[path][] } };
+$addToSet?: { [path in keyof DeviceUpdateArrayElements]?: DeviceUpdateArrayElements[path] | { $each: DeviceUpdateArrayElements[path][] } };
+$pull?: { [path in keyof DeviceUpdateArrayElements]?: DeviceUpdateArrayElements[path] | Partial<DeviceUpdateArrayElements[path]> | { $in: DeviceUpdateArrayElements[path][] } };
+}
+
+/** Values of the paths of `DeviceFilter`, or of their elements for array paths */
+export type DeviceFilterValues = {
+"name": Device["name"];
+"home": Device["home"];
+"home.homeId": NonNullable<Device["home"]>["homeId"];
+"home.homeName": NonNullable<Device["home"]>["homeName"];
+"_id": Device["_id"];
+}
+
+/**
+ * Filter of `DeviceModel.find()`, `DeviceModel.findOne()`, `DeviceModel.countDocuments()` & co
+ * 
+ * Unlike `mongoose.FilterQuery`, only the paths of the schema are accepted:
+ * ```
+ * const filter: DeviceFilter = { "friends.nickname": { $regex: /^b/i } };
+ * ```
+ */
+export type DeviceFilter = {
+[path in "name" | "home.homeId" | "home.homeName"]?: DeviceFilterValues[path] | RegExp | { $eq?: DeviceFilterValues[path]; $ne?: DeviceFilterValues[path]; $in?: DeviceFilterValues[path][]; $nin?: DeviceFilterValues[path][]; $gt?: DeviceFilterValues[path]; $gte?: DeviceFilterValues[path]; $lt?: DeviceFilterValues[path]; $lte?: DeviceFilterValues[path]; $regex?: string | RegExp; $options?: string; $exists?: boolean; $not?: RegExp | { $eq?: DeviceFilterValues[path]; $ne?: DeviceFilterValues[path]; $in?: DeviceFilterValues[path][]; $nin?: DeviceFilterValues[path][]; $gt?: DeviceFilterValues[path]; $gte?: DeviceFilterValues[path]; $lt?: DeviceFilterValues[path]; $lte?: DeviceFilterValues[path]; $regex?: string | RegExp; $options?: string; $exists?: boolean } };
+} & {
+[path in "home" | "_id"]?: DeviceFilterValues[path] | { $eq?: DeviceFilterValues[path]; $ne?: DeviceFilterValues[path]; $in?: DeviceFilterValues[path][]; $nin?: DeviceFilterValues[path][]; $exists?: boolean; $not?: { $eq?: DeviceFilterValues[path]; $ne?: DeviceFilterValues[path]; $in?: DeviceFilterValues[path][]; $nin?: DeviceFilterValues[path][]; $exists?: boolean } };
+} & {
+$and?: DeviceFilter[];
+$or?: DeviceFilter[];
+$nor?: DeviceFilter[];
+}
+
+/**
+ * Every path of `Device` in dot notation, including nested paths and subdocuments
+ * 
+ * Used to check the paths passed to `select()`, `sort()` & co:
+ * ```
+ * const sort: DeviceSort = { _id: -1 };
+ * ```
+ */
+export type DevicePaths = "name" | "home" | "home.homeId" | "home.homeName" | "_id"
+
+/** Sort of `DeviceQuery.sort()` */
+export type DeviceSort = { [path in DevicePaths]?: 1 | -1 | "asc" | "desc" | "ascending" | "descending" }
+
+/** Projection of `DeviceQuery.select()` & `DeviceModel.find()` */
+export type DeviceProjection = { [path in DevicePaths]?: 0 | 1 | boolean }
+
 /**
  * Lean version of DeviceDocument (type alias of `Device`)
  * 
@@ -195,8 +364,8 @@ status: any;
  */
 export type DeviceDocument = mongoose.Document<mongoose.Types.ObjectId, DeviceQueries> & DeviceMethods & {
 name?: string;
-_id: mongoose.Types.ObjectId;
 home?: DeviceHomeDocument;
+_id: mongoose.Types.ObjectId;
 }
 
 /**
@@ -222,10 +391,103 @@ homeName?: string;
  */
 export type Device2 = {
 name?: string;
-_id: mongoose.Types.ObjectId;
 home?: Device2Home;
+_id: mongoose.Types.ObjectId;
+}
+
+/**
+ * Input of `Device2Home` subdocuments when creating their parent document
+ * 
+ * Fields with defaults and fields generated by Mongoose (`_id`, timestamps) are optional, virtuals are omitted.
+ */
+export type Device2HomeCreateInput = {
+homeId?: string;
+homeName?: string;
 }
 
+/**
+ * Input of `Device2Model.create()`
+ * 
+ * Fields with defaults and fields generated by Mongoose (`_id`, timestamps) are optional, virtuals are omitted.
+ */
+export type Device2CreateInput = {
+name?: string;
+home?: Device2HomeCreateInput;
+}
+
+/** Values of the paths of `Device2Update` */
+export type Device2UpdateValues = {
+"name": Device2CreateInput["name"];
+"home": Device2CreateInput["home"];
+"home.homeId": NonNullable<Device2CreateInput["home"]>["homeId"];
+"home.homeName": NonNullable<Device2CreateInput["home"]>["homeName"];
+}
+
+/** Elements of the array paths of `Device2Update` */
+export type Device2UpdateArrayElements = {
+}
+
+/**
+ * Update document of `Device2Model.updateOne()`, `Device2Model.findOneAndUpdate()` & co
+ * 
+ * Array elements can be updated using the `$` and `$[]` positional operators:
+ * ```
+ * const update: Device2Update = { $set: { "friends.$.name": "Bob" } };
+ * ```
+ */
+export type Device2Update = {
+$set?: Partial<Device2UpdateValues>;
+$unset?: { [path in keyof Device2UpdateValues]?: "" | 1 | true };
+$inc?: {
+};
+$push?: { [path in keyof Device2UpdateArrayElements]?: Device2UpdateArrayElements[path] | { $each: Device2UpdateArrayElements[path][] } };
+$addToSet?: { [path in keyof Device2UpdateArrayElements]?: Device2UpdateArrayElements[path] | { $each: Device2UpdateArrayElements[path][] } };
+$pull?: { [path in keyof Device2UpdateArrayElements]?: Device2UpdateArrayElements[path] | Partial<Device2UpdateArrayElements[path]> | { $in: Device2UpdateArrayElements[path][] } };
+}
+
+/** Values of the paths of `Device2Filter`, or of their elements for array paths */
+export type Device2FilterValues = {
+"name": Device2["name"];
+"home": Device2["home"];
+"home.homeId": NonNullable<Device2["home"]>["homeId"];
+"home.homeName": NonNullable<Device2["home"]>["homeName"];
+"_id": Device2["_id"];
+}
+
+/**
+ * Filter of `Device2Model.find()`, `Device2Model.findOne()`, `Device2Model.countDocuments()` & co
+ * 
+ * Unlike `mongoose.FilterQuery`, only the paths of the schema are accepted:
+ * ```
+ * const filter: Device2Filter = { "friends.nickname": { $regex: /^b/i } };
+ * ```
+ */
+export type Device2Filter = {
+[path in "name" | "home.homeId" | "home.homeName"]?: Device2FilterValues[path] | RegExp | { $eq?: Device2FilterValues[path]; $ne?: Device2FilterValues[path]; $in?: Device2FilterValues[path][]; $nin?: Device2FilterValues[path][]; $gt?: Device2FilterValues[path]; $gte?: Device2FilterValues[path]; $lt?: Device2FilterValues[path]; $lte?: Device2FilterValues[path]; $regex?: string | RegExp; $options?: string; $exists?: boolean; $not?: RegExp | { $eq?: Device2FilterValues[path]; $ne?: Device2FilterValues[path]; $in?: Device2FilterValues[path][]; $nin?: Device2FilterValues[path][]; $gt?: Device2FilterValues[path]; $gte?: Device2FilterValues[path]; $lt?: Device2FilterValues[path]; $lte?: Device2FilterValues[path]; $regex?: string | RegExp; $options?: string; $exists?: boolean } };
+} & {
+[path in "home" | "_id"]?: Device2FilterValues[path] | { $eq?: Device2FilterValues[path]; $ne?: Device2FilterValues[path]; $in?: Device2FilterValues[path][]; $nin?: Device2FilterValues[path][]; $exists?: boolean; $not?: { $eq?: Device2FilterValues[path]; $ne?: Device2FilterValues[path]; $in?: Device2FilterValues[path][]; $nin?: Device2FilterValues[path][]; $exists?: boolean } };
+} & {
+$and?: Device2Filter[];
+$or?: Device2Filter[];
+$nor?: Device2Filter[];
+}
+
+/**
+ * Every path of `Device2` in dot notation, including nested paths and subdocuments
+ * 
+ * Used to check the paths passed to `select()`, `sort()` & co:
+ * ```
+ * const sort: Device2Sort = { _id: -1 };
+ * ```
+ */
+export type Device2Paths = "name" | "home" | "home.homeId" | "home.homeName" | "_id"
+
+/** Sort of `Device2Query.sort()` */
+export type Device2Sort = { [path in Device2Paths]?: 1 | -1 | "asc" | "desc" | "ascending" | "descending" }
+
+/** Projection of `Device2Query.select()` & `Device2Model.find()` */
+export type Device2Projection = { [path in Device2Paths]?: 0 | 1 | boolean }
+
 /**
  * Lean version of Device2Document (type alias of `Device2`)
  * 
@@ -306,8 +568,8 @@ status: any;
  */
 export type Device2Document = mongoose.Document<mongoose.Types.ObjectId, Device2Queries> & Device2Methods & {
 name?: string;
-_id: mongoose.Types.ObjectId;
 home?: Device2HomeDocument;
+_id: mongoose.Types.ObjectId;
 }
 
 /**
@@ -333,10 +595,103 @@ homeName?: string;
  */
 export type Device3 = {
 name?: string;
-_id: mongoose.Types.ObjectId;
 home?: Device3Home;
+_id: mongoose.Types.ObjectId;
+}
+
+/**
+ * Input of `Device3Home` subdocuments when creating their parent document
+ * 
+ * Fields with defaults and fields generated by Mongoose (`_id`, timestamps) are optional, virtuals are omitted.
+ */
+export type Device3HomeCreateInput = {
+homeId?: string;
+homeName?: string;
+}
+
+/**
+ * Input of `Device3Model.create()`
+ * 
+ * Fields with defaults and fields generated by Mongoose (`_id`, timestamps) are optional, virtuals are omitted.
+ */
+export type Device3CreateInput = {
+name?: string;
+home?: Device3HomeCreateInput;
+}
+
+/** Values of the paths of `Device3Update` */
+export type Device3UpdateValues = {
+"name": Device3CreateInput["name"];
+"home": Device3CreateInput["home"];
+"home.homeId": NonNullable<Device3CreateInput["home"]>["homeId"];
+"home.homeName": NonNullable<Device3CreateInput["home"]>["homeName"];
+}
+
+/** Elements of the array paths of `Device3Update` */
+export type Device3UpdateArrayElements = {
+}
+
+/**
+ * Update document of `Device3Model.updateOne()`, `Device3Model.findOneAndUpdate()` & co
+ * 
+ * Array elements can be updated using the `$` and `$[]` positional operators:
+ * ```
+ * const update: Device3Update = { $set: { "friends.$.name": "Bob" } };
+ * ```
+ */
+export type Device3Update = {
+$set?: Partial<Device3UpdateValues>;
+$unset?: { [path in keyof Device3UpdateValues]?: "" | 1 | true };
+$inc?: {
+};
+$push?: { [path in keyof Device3UpdateArrayElements]?: Device3UpdateArrayElements[path] | { $each: Device3UpdateArrayElements[path][] } };
+$addToSet?: { [path in keyof Device3UpdateArrayElements]?: Device3UpdateArrayElements[path] | { $each: Device3UpdateArrayElements[path][] } };
+$pull?: { [path in keyof Device3UpdateArrayElements]?: Device3UpdateArrayElements[path] | Partial<Device3UpdateArrayElements[path]> | { $in: Device3UpdateArrayElements[path][] } };
+}
+
+/** Values of the paths of `Device3Filter`, or of their elements for array paths */
+export type Device3FilterValues = {
+"name": Device3["name"];
+"home": Device3["home"];
+"home.homeId": NonNullable<Device3["home"]>["homeId"];
+"home.homeName": NonNullable<Device3["home"]>["homeName"];
+"_id": Device3["_id"];
+}
+
+/**
+ * Filter of `Device3Model.find()`, `Device3Model.findOne()`, `Device3Model.countDocuments()` & co
+ * 
+ * Unlike `mongoose.FilterQuery`, only the paths of the schema are accepted:
+ * ```
+ * const filter: Device3Filter = { "friends.nickname": { $regex: /^b/i } };
+ * ```
+ */
+export type Device3Filter = {
+[path in "name" | "home.homeId" | "home.homeName"]?: Device3FilterValues[path] | RegExp | { $eq?: Device3FilterValues[path]; $ne?: Device3FilterValues[path]; $in?: Device3FilterValues[path][]; $nin?: Device3FilterValues[path][]; $gt?: Device3FilterValues[path]; $gte?: Device3FilterValues[path]; $lt?: Device3FilterValues[path]; $lte?: Device3FilterValues[path]; $regex?: string | RegExp; $options?: string; $exists?: boolean; $not?: RegExp | { $eq?: Device3FilterValues[path]; $ne?: Device3FilterValues[path]; $in?: Device3FilterValues[path][]; $nin?: Device3FilterValues[path][]; $gt?: Device3FilterValues[path]; $gte?: Device3FilterValues[path]; $lt?: Device3FilterValues[path]; $lte?: Device3FilterValues[path]; $regex?: string | RegExp; $options?: string; $exists?: boolean } };
+} & {
+[path in "home" | "_id"]?: Device3FilterValues[path] | { $eq?: Device3FilterValues[path]; $ne?: Device3FilterValues[path]; $in?: Device3FilterValues[path][]; $nin?: Device3FilterValues[path][]; $exists?: boolean; $not?: { $eq?: Device3FilterValues[path]; $ne?: Device3FilterValues[path]; $in?: Device3FilterValues[path][]; $nin?: Device3FilterValues[path][]; $exists?: boolean } };
+} & {
+$and?: Device3Filter[];
+$or?: Device3Filter[];
+$nor?: Device3Filter[];
 }
 
+/**
+ * Every path of `Device3` in dot notation, including nested paths and subdocuments
+ * 
+ * Used to check the paths passed to `select()`, `sort()` & co:
+ * ```
+ * const sort: Device3Sort = { _id: -1 };
+ * ```
+ */
+export type Device3Paths = "name" | "home" | "home.homeId" | "home.homeName" | "_id"
+
+/** Sort of `Device3Query.sort()` */
+export type Device3Sort = { [path in Device3Paths]?: 1 | -1 | "asc" | "desc" | "ascending" | "descending" }
+
+/** Projection of `Device3Query.select()` & `Device3Model.find()` */
+export type Device3Projection = { [path in Device3Paths]?: 0 | 1 | boolean }
+
 /**
  * Lean version of Device3Document (type alias of `Device3`)
  * 
@@ -417,8 +772,8 @@ status: any;
  */
 export type Device3Document = mongoose.Document<mongoose.Types.ObjectId, Device3Queries> & Device3Methods & {
 name?: string;
-_id: mongoose.Types.ObjectId;
 home?: Device3HomeDocument;
+_id: mongoose.Types.ObjectId;
 }
 
 /**
@@ -444,10 +799,103 @@ homeName?: string;
  */
 export type Device4 = {
 name?: string;
-_id: mongoose.Types.ObjectId;
 home?: Device4Home;
+_id: mongoose.Types.ObjectId;
 }
 
+/**
+ * Input of `Device4Home` subdocuments when creating their parent document
+ * 
+ * Fields with defaults and fields generated by Mongoose (`_id`, timestamps) are optional, virtuals are omitted.
+ */
+export type Device4HomeCreateInput = {
+homeId?: string;
+homeName?: string;
+}
+
+/**
+ * Input of `Device4Model.create()`
+ * 
+ * Fields with defaults and fields generated by Mongoose (`_id`, timestamps) are optional, virtuals are omitted.
+ */
+export type Device4CreateInput = {
+name?: string;
+home?: Device4HomeCreateInput;
+}
+
+/** Values of the paths of `Device4Update` */
+export type Device4UpdateValues = {
+"name": Device4CreateInput["name"];
+"home": Device4CreateInput["home"];
+"home.homeId": NonNullable<Device4CreateInput["home"]>["homeId"];
+"home.homeName": NonNullable<Device4CreateInput["home"]>["homeName"];
+}
+
+/** Elements of the array paths of `Device4Update` */
+export type Device4UpdateArrayElements = {
+}
+
+/**
+ * Update document of `Device4Model.updateOne()`, `Device4Model.findOneAndUpdate()` & co
+ * 
+ * Array elements can be updated using the `$` and `$[]` positional operators:
+ * ```
+ * const update: Device4Update = { $set: { "friends.$.name": "Bob" } };
+ * ```
+ */
+export type Device4Update = {
+$set?: Partial<Device4UpdateValues>;
+$unset?: { [path in keyof Device4UpdateValues]?: "" | 1 | true };
+$inc?: {
+};
+$push?: { [path in keyof Device4UpdateArrayElements]?: Device4UpdateArrayElements[path] | { $each: Device4UpdateArrayElements[path][] } };
+$addToSet?: { [path in keyof Device4UpdateArrayElements]?: Device4UpdateArrayElements[path] | { $each: Device4UpdateArrayElements[path][] } };
+$pull?: { [path in keyof Device4UpdateArrayElements]?: Device4UpdateArrayElements[path] | Partial<Device4UpdateArrayElements[path]> | { $in: Device4UpdateArrayElements[path][] } };
+}
+
+/** Values of the paths of `Device4Filter`, or of their elements for array paths */
+export type Device4FilterValues = {
+"name": Device4["name"];
+"home": Device4["home"];
+"home.homeId": NonNullable<Device4["home"]>["homeId"];
+"home.homeName": NonNullable<Device4["home"]>["homeName"];
+"_id": Device4["_id"];
+}
+
+/**
+ * Filter of `Device4Model.find()`, `Device4Model.findOne()`, `Device4Model.countDocuments()` & co
+ * 
+ * Unlike `mongoose.FilterQuery`, only the paths of the schema are accepted:
+ * ```
+ * const filter: Device4Filter = { "friends.nickname": { $regex: /^b/i } };
+ * ```
+ */
+export type Device4Filter = {
+[path in "name" | "home.homeId" | "home.homeName"]?: Device4FilterValues[path] | RegExp | { $eq?: Device4FilterValues[path]; $ne?: Device4FilterValues[path]; $in?: Device4FilterValues[path][]; $nin?: Device4FilterValues[path][]; $gt?: Device4FilterValues[path]; $gte?: Device4FilterValues[path]; $lt?: Device4FilterValues[path]; $lte?: Device4FilterValues[path]; $regex?: string | RegExp; $options?: string; $exists?: boolean; $not?: RegExp | { $eq?: Device4FilterValues[path]; $ne?: Device4FilterValues[path]; $in?: Device4FilterValues[path][]; $nin?: Device4FilterValues[path][]; $gt?: Device4FilterValues[path]; $gte?: Device4FilterValues[path]; $lt?: Device4FilterValues[path]; $lte?: Device4FilterValues[path]; $regex?: string | RegExp; $options?: string; $exists?: boolean } };
+} & {
+[path in "home" | "_id"]?: Device4FilterValues[path] | { $eq?: Device4FilterValues[path]; $ne?: Device4FilterValues[path]; $in?: Device4FilterValues[path][]; $nin?: Device4FilterValues[path][]; $exists?: boolean; $not?: { $eq?: Device4FilterValues[path]; $ne?: Device4FilterValues[path]; $in?: Device4FilterValues[path][]; $nin?: Device4FilterValues[path][]; $exists?: boolean } };
+} & {
+$and?: Device4Filter[];
+$or?: Device4Filter[];
+$nor?: Device4Filter[];
+}
+
+/**
+ * Every path of `Device4` in dot notation, including nested paths and subdocuments
+ * 
+ * Used to check the paths passed to `select()`, `sort()` & co:
+ * ```
+ * const sort: Device4Sort = { _id: -1 };
+ * ```
+ */
+export type Device4Paths = "name" | "home" | "home.homeId" | "home.homeName" | "_id"
+
+/** Sort of `Device4Query.sort()` */
+export type Device4Sort = { [path in Device4Paths]?: 1 | -1 | "asc" | "desc" | "ascending" | "descending" }
+
+/** Projection of `Device4Query.select()` & `Device4Model.find()` */
+export type Device4Projection = { [path in Device4Paths]?: 0 | 1 | boolean }
+
 /**
  * Lean version of Device4Document (type alias of `Device4`)
  * 
@@ -528,8 +976,8 @@ status: any;
  */
 export type Device4Document = mongoose.Document<mongoose.Types.ObjectId, Device4Queries> & Device4Methods & {
 name?: string;
-_id: mongoose.Types.ObjectId;
 home?: Device4HomeDocument;
+_id: mongoose.Types.ObjectId;
 }
 
 /**
@@ -555,10 +1003,103 @@ homeName?: string;
  */
 export type DeviceDefault = {
 name?: string;
-_id: mongoose.Types.ObjectId;
 home?: DeviceDefaultHome;
+_id: mongoose.Types.ObjectId;
+}
+
+/**
+ * Input of `DeviceDefaultHome` subdocuments when creating their parent document
+ * 
+ * Fields with defaults and fields generated by Mongoose (`_id`, timestamps) are optional, virtuals are omitted.
+ */
+export type DeviceDefaultHomeCreateInput = {
+homeId?: string;
+homeName?: string;
+}
+
+/**
+ * Input of `DeviceDefaultModel.create()`
+ * 
+ * Fields with defaults and fields generated by Mongoose (`_id`, timestamps) are optional, virtuals are omitted.
+ */
+export type DeviceDefaultCreateInput = {
+name?: string;
+home?: DeviceDefaultHomeCreateInput;
+}
+
+/** Values of the paths of `DeviceDefaultUpdate` */
+export type DeviceDefaultUpdateValues = {
+"name": DeviceDefaultCreateInput["name"];
+"home": DeviceDefaultCreateInput["home"];
+"home.homeId": NonNullable<DeviceDefaultCreateInput["home"]>["homeId"];
+"home.homeName": NonNullable<DeviceDefaultCreateInput["home"]>["homeName"];
+}
+
+/** Elements of the array paths of `DeviceDefaultUpdate` */
+export type DeviceDefaultUpdateArrayElements = {
+}
+
+/**
+ * Update document of `DeviceDefaultModel.updateOne()`, `DeviceDefaultModel.findOneAndUpdate()` & co
+ * 
+ * Array elements can be updated using the `$` and `$[]` positional operators:
+ * ```
+ * const update: DeviceDefaultUpdate = { $set: { "friends.$.name": "Bob" } };
+ * ```
+ */
+export type DeviceDefaultUpdate = {
+$set?: Partial<DeviceDefaultUpdateValues>;
+$unset?: { [path in keyof DeviceDefaultUpdateValues]?: "" | 1 | true };
+$inc?: {
+};
+$push?: { [path in keyof DeviceDefaultUpdateArrayElements]?: DeviceDefaultUpdateArrayElements[path] | { $each: DeviceDefaultUpdateArrayElements[path][] } };
+$addToSet?: { [path in keyof DeviceDefaultUpdateArrayElements]?: DeviceDefaultUpdateArrayElements[path] | { $each: DeviceDefaultUpdateArrayElements[path][] } };
+$pull?: { [path in keyof DeviceDefaultUpdateArrayElements]?: DeviceDefaultUpdateArrayElements[path] | Partial<DeviceDefaultUpdateArrayElements[path]> | { $in: DeviceDefaultUpdateArrayElements[path][] } };
+}
+
+/** Values of the paths of `DeviceDefaultFilter`, or of their elements for array paths */
+export type DeviceDefaultFilterValues = {
+"name": DeviceDefault["name"];
+"home": DeviceDefault["home"];
+"home.homeId": NonNullable<DeviceDefault["home"]>["homeId"];
+"home.homeName": NonNullable<DeviceDefault["home"]>["homeName"];
+"_id": DeviceDefault["_id"];
 }
 
+/**
+ * Filter of `DeviceDefaultModel.find()`, `DeviceDefaultModel.findOne()`, `DeviceDefaultModel.countDocuments()` & co
+ * 
+ * Unlike `mongoose.FilterQuery`, only the paths of the schema are accepted:
+ * ```
+ * const filter: DeviceDefaultFilter = { "friends.nickname": { $regex: /^b/i } };
+ * ```
+ */
+export type DeviceDefaultFilter = {
+[path in "name" | "home.homeId" | "home.homeName"]?: DeviceDefaultFilterValues[path] | RegExp | { $eq?: DeviceDefaultFilterValues[path]; $ne?: DeviceDefaultFilterValues[path]; $in?: DeviceDefaultFilterValues[path][]; $nin?: DeviceDefaultFilterValues[path][]; $gt?: DeviceDefaultFilterValues[path]; $gte?: DeviceDefaultFilterValues[path]; $lt?: DeviceDefaultFilterValues[path]; $lte?: DeviceDefaultFilterValues[path]; $regex?: string | RegExp; $options?: string; $exists?: boolean; $not?: RegExp | { $eq?: DeviceDefaultFilterValues[path]; $ne?: DeviceDefaultFilterValues[path]; $in?: DeviceDefaultFilterValues[path][]; $nin?: DeviceDefaultFilterValues[path][]; $gt?: DeviceDefaultFilterValues[path]; $gte?: DeviceDefaultFilterValues[path]; $lt?: DeviceDefaultFilterValues[path]; $lte?: DeviceDefaultFilterValues[path]; $regex?: string | RegExp; $options?: string; $exists?: boolean } };
+} & {
+[path in "home" | "_id"]?: DeviceDefaultFilterValues[path] | { $eq?: DeviceDefaultFilterValues[path]; $ne?: DeviceDefaultFilterValues[path]; $in?: DeviceDefaultFilterValues[path][]; $nin?: DeviceDefaultFilterValues[path][]; $exists?: boolean; $not?: { $eq?: DeviceDefaultFilterValues[path]; $ne?: DeviceDefaultFilterValues[path]; $in?: DeviceDefaultFilterValues[path][]; $nin?: DeviceDefaultFilterValues[path][]; $exists?: boolean } };
+} & {
+$and?: DeviceDefaultFilter[];
+$or?: DeviceDefaultFilter[];
+$nor?: DeviceDefaultFilter[];
+}
+
+/**
+ * Every path of `DeviceDefault` in dot notation, including nested paths and subdocuments
+ * 
+ * Used to check the paths passed to `select()`, `sort()` & co:
+ * ```
+ * const sort: DeviceDefaultSort = { _id: -1 };
+ * ```
+ */
+export type DeviceDefaultPaths = "name" | "home" | "home.homeId" | "home.homeName" | "_id"
+
+/** Sort of `DeviceDefaultQuery.sort()` */
+export type DeviceDefaultSort = { [path in DeviceDefaultPaths]?: 1 | -1 | "asc" | "desc" | "ascending" | "descending" }
+
+/** Projection of `DeviceDefaultQuery.select()` & `DeviceDefaultModel.find()` */
+export type DeviceDefaultProjection = { [path in DeviceDefaultPaths]?: 0 | 1 | boolean }
+
 /**
  * Lean version of DeviceDefaultDocument (type alias of `DeviceDefault`)
  * 
@@ -639,8 +1180,8 @@ status: any;
  */
 export type DeviceDefaultDocument = mongoose.Document<mongoose.Types.ObjectId, DeviceDefaultQueries> & DeviceDefaultMethods & {
 name?: string;
-_id: mongoose.Types.ObjectId;
 home?: DeviceDefaultHomeDocument;
+_id: mongoose.Types.ObjectId;
 }
 
 /**
@@ -655,6 +1196,12 @@ export function IsPopulated<T>(doc: T | mongoose.Types.ObjectId): doc is T {
   return doc instanceof mongoose.Document;
 }
 
+/**
+ * Key under which `Selectable` types keep the fields declared with `select: false`, so that `.select("+field")` can
+ * add them back. It only exists in types, documents never have it.
+ */
+export declare const deselectedFields: unique symbol;
+
 /**
  * Helper type used by `PopulatedDocument`. Returns the parent property of a string 
  * representing a nested property (i.e. `friend.user` -> `friend`)
@@ -716,22 +1263,92 @@ T
 /**
  * Helper types used by the populate overloads
  */
-type Unarray<T> = T extends Array<infer U> ? U : T;
 type Modify<T, R> = Omit<T, keyof R> & R;
 
 /**
- * Augment mongoose with Query.populate overloads
+ * Narrows the documents of a query result to the populated paths. Projected documents aren't assignable to the query's
+ * document type, so any object is narrowed.
+ */
+type PopulatedResult<ResultType, T> = ResultType extends Array<infer U>
+  ? (U extends object ? Array<PopulatedDocument<U, T>> : ResultType)
+  : ResultType extends object
+  ? PopulatedDocument<ResultType, T>
+  : ResultType;
+
+/**
+ * Helper types used by the select overloads. Projections are converted to a union of paths, where excluded paths are
+ * prefixed with `-` (i.e. `"name -email"` and `{ name: 1, email: 0 }` -> `"name" | "-email"`)
+ */
+type SplitSelect<S extends string> = S extends `${infer Head} ${infer Rest}` ? Head | SplitSelect<Rest> : S;
+type ProjectionPaths<P> = { [K in keyof P]: P[K] extends 0 | false ? `-${K & string}` : K & string }[keyof P];
+type RootProperty<T> = T extends `${infer P}.${string}` ? P : T;
+type ExcludedProperty<T> = T extends `-${infer P}` ? (P extends `${string}.${string}` ? never : P) : never;
+type IncludedProperty<T> = T extends `-${string}` | `+${string}` | "" ? never : RootProperty<T>;
+/** Properties added back with `+` (i.e. `"+password"`), for fields declared with `select: false` */
+type AddedProperty<T> = T extends `+${infer P}` ? RootProperty<P> : never;
+/** Properties holding the fields of a document, as opposed to its methods & the members of `mongoose.Document` */
+type FieldProperty<T> = Exclude<
+  { [K in keyof T]: T[K] extends Function ? never : K }[keyof T],
+  Exclude<keyof mongoose.Document, "_id">
+>;
+
+/**
+ * Narrows a document to the paths selected by a projection. Inclusive projections keep `_id` unless it's excluded,
+ * exclusive projections only remove the root properties they exclude.
+ */
+type ProjectedDocument<T, Paths extends string> = [IncludedProperty<Paths>] extends [never]
+  ? Omit<T, ExcludedProperty<Paths>>
+  : Omit<
+      T,
+      Exclude<
+        FieldProperty<T>,
+        IncludedProperty<Paths> | AddedProperty<Paths> | ("-_id" extends Paths ? never : "_id")
+      >
+    >;
+/** The `select: false` fields kept by `Selectable` types under the `deselectedFields` key, added back once they're selected */
+type SelectedFields<T, Paths extends string> = typeof deselectedFields extends keyof T
+  ? T extends { [deselectedFields]?: infer D }
+    ? Pick<D, Extract<IncludedProperty<Paths> | AddedProperty<Paths>, keyof D>>
+    : {}
+  : {};
+type SelectedDocument<T, Paths extends string> = ProjectedDocument<T, Paths> & SelectedFields<T, Paths>;
+type ProjectedResult<ResultType, Paths extends string> = ResultType extends Array<infer U>
+  ? Array<SelectedDocument<U, Paths>>
+  : ResultType extends object
+  ? SelectedDocument<ResultType, Paths>
+  : ResultType;
+
+/**
+ * Augment mongoose with Query.populate & Query.select overloads
  */
 declare module "mongoose" {
   interface Query<ResultType, DocType, THelpers = {}> {
     populate<T extends string>(path: T, select?: string | any, model?: string | Model<any, THelpers>, match?: any): Query<
-      ResultType extends Array<DocType> ? Array<PopulatedDocument<Unarray<ResultType>, T>> : (ResultType extends DocType ? PopulatedDocument<Unarray<ResultType>, T> : ResultType),
+      PopulatedResult<ResultType, T>,
       DocType,
       THelpers
     > & THelpers;
 
     populate<T extends string>(options: Modify<PopulateOptions, { path: T }> | Array<PopulateOptions>): Query<
-      ResultType extends Array<DocType> ? Array<PopulatedDocument<Unarray<ResultType>, T>> : (ResultType extends DocType ? PopulatedDocument<Unarray<ResultType>, T> : ResultType),
+      PopulatedResult<ResultType, T>,
+      DocType,
+      THelpers
+    > & THelpers;
+
+    select<S extends string>(arg: S | ReadonlyArray<S>): Query<
+      ProjectedResult<ResultType, SplitSelect<S>>,
+      DocType,
+      THelpers
+    > & THelpers;
+
+    select<P extends { [path: string]: 0 | 1 | boolean }>(arg: P): Query<
+      ProjectedResult<ResultType, ProjectionPaths<P>>,
+      DocType,
+      THelpers
+    > & THelpers;
+
+    projection<P extends { [path: string]: 0 | 1 | boolean }>(fields: P): Query<
+      ProjectedResult<ResultType, ProjectionPaths<P>>,
       DocType,
       THelpers
     > & THelpers;
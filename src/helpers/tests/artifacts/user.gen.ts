@@ -82,6 +82,267 @@ _id: mongoose.Types.ObjectId;
 name: string;
 }
 
+/**
+ * Input of `UserFriend` subdocuments when creating their parent document
+ * 
+ * Fields with defaults and fields generated by Mongoose (`_id`, timestamps) are optional, virtuals are omitted.
+ */
+export type UserFriendCreateInput = {
+uid: User["_id"] | User;
+nickname?: string;
+}
+
+/**
+ * Input of `UserCitySubdocWithoutDefault` subdocuments when creating their parent document
+ * 
+ * Fields with defaults and fields generated by Mongoose (`_id`, timestamps) are optional, virtuals are omitted.
+ */
+export type UserCitySubdocWithoutDefaultCreateInput = {
+a?: string;
+}
+
+/**
+ * Input of `UserModel.create()`
+ * 
+ * Fields with defaults and fields generated by Mongoose (`_id`, timestamps) are optional, virtuals are omitted.
+ */
+export type UserCreateInput = {
+email: string;
+firstName: string;
+lastName: string;
+metadata?: any;
+bestFriend?: User["_id"] | User;
+friends?: UserFriendCreateInput[];
+city?: {
+coordinates?: number[];
+subdocWithoutDefault?: UserCitySubdocWithoutDefaultCreateInput[];
+};
+tags?: string[];
+alternateObjectId?: mongoose.Types.ObjectId;
+socialMediaHandles?: Map<string, string>;
+arrayOfMaps?: (Map<string, number>)[];
+mapOfArrays?: Map<string, number[]>;
+requiredIsFunction?: number;
+buffer: Buffer;
+bufferString?: Buffer;
+bufferSchemaType?: Buffer;
+decimal128?: number;
+otherDecimal128?: number;
+numberString?: number;
+stringString?: string;
+otherNumberString: number;
+otherStringString: string;
+enumWithNull?: "a" | "b" | "c" | null;
+enumWithoutNull?: "a" | "b" | "c";
+}
+
+/** Values of the paths of `UserUpdate` */
+export type UserUpdateValues = {
+"email": UserCreateInput["email"];
+"firstName": UserCreateInput["firstName"];
+"lastName": UserCreateInput["lastName"];
+"metadata": UserCreateInput["metadata"];
+"bestFriend": UserCreateInput["bestFriend"];
+"friends": UserCreateInput["friends"];
+"friends.$": NonNullable<UserCreateInput["friends"]>[number];
+"friends.$[]": NonNullable<UserCreateInput["friends"]>[number];
+"friends.$.uid": NonNullable<UserCreateInput["friends"]>[number]["uid"];
+"friends.$[].uid": NonNullable<UserCreateInput["friends"]>[number]["uid"];
+"friends.$.nickname": NonNullable<UserCreateInput["friends"]>[number]["nickname"];
+"friends.$[].nickname": NonNullable<UserCreateInput["friends"]>[number]["nickname"];
+"city": UserCreateInput["city"];
+"city.coordinates": NonNullable<UserCreateInput["city"]>["coordinates"];
+"city.coordinates.$": NonNullable<NonNullable<UserCreateInput["city"]>["coordinates"]>[number];
+"city.coordinates.$[]": NonNullable<NonNullable<UserCreateInput["city"]>["coordinates"]>[number];
+"city.subdocWithoutDefault": NonNullable<UserCreateInput["city"]>["subdocWithoutDefault"];
+"city.subdocWithoutDefault.$": NonNullable<NonNullable<UserCreateInput["city"]>["subdocWithoutDefault"]>[number];
+"city.subdocWithoutDefault.$[]": NonNullable<NonNullable<UserCreateInput["city"]>["subdocWithoutDefault"]>[number];
+"city.subdocWithoutDefault.$.a": NonNullable<NonNullable<UserCreateInput["city"]>["subdocWithoutDefault"]>[number]["a"];
+"city.subdocWithoutDefault.$[].a": NonNullable<NonNullable<UserCreateInput["city"]>["subdocWithoutDefault"]>[number]["a"];
+"tags": UserCreateInput["tags"];
+"tags.$": NonNullable<UserCreateInput["tags"]>[number];
+"tags.$[]": NonNullable<UserCreateInput["tags"]>[number];
+"alternateObjectId": UserCreateInput["alternateObjectId"];
+"socialMediaHandles": UserCreateInput["socialMediaHandles"];
+"arrayOfMaps": UserCreateInput["arrayOfMaps"];
+"arrayOfMaps.$": NonNullable<UserCreateInput["arrayOfMaps"]>[number];
+"arrayOfMaps.$[]": NonNullable<UserCreateInput["arrayOfMaps"]>[number];
+"mapOfArrays": UserCreateInput["mapOfArrays"];
+"requiredIsFunction": UserCreateInput["requiredIsFunction"];
+"buffer": UserCreateInput["buffer"];
+"bufferString": UserCreateInput["bufferString"];
+"bufferSchemaType": UserCreateInput["bufferSchemaType"];
+"decimal128": UserCreateInput["decimal128"];
+"otherDecimal128": UserCreateInput["otherDecimal128"];
+"numberString": UserCreateInput["numberString"];
+"stringString": UserCreateInput["stringString"];
+"otherNumberString": UserCreateInput["otherNumberString"];
+"otherStringString": UserCreateInput["otherStringString"];
+"enumWithNull": UserCreateInput["enumWithNull"];
+"enumWithoutNull": UserCreateInput["enumWithoutNull"];
+}
+
+/** Elements of the array paths of `UserUpdate` */
+export type UserUpdateArrayElements = {
+"friends": NonNullable<UserCreateInput["friends"]>[number];
+"city.coordinates": NonNullable<NonNullable<UserCreateInput["city"]>["coordinates"]>[number];
+"city.subdocWithoutDefault": NonNullable<NonNullable<UserCreateInput["city"]>["subdocWithoutDefault"]>[number];
+"tags": NonNullable<UserCreateInput["tags"]>[number];
+"arrayOfMaps": NonNullable<UserCreateInput["arrayOfMaps"]>[number];
+}
+
+/**
+ * Update document of `UserModel.updateOne()`, `UserModel.findOneAndUpdate()` & co
+ * 
+ * Array elements can be updated using the `$` and `$[]` positional operators:
+ * ```
+ * const update: UserUpdate = { $set: { "friends.$.name": "Bob" } };
+ * ```
+ */
+export type UserUpdate = {
+$set?: Partial<UserUpdateValues>;
+$unset?: { [path in keyof UserUpdateValues]?: "" | 1 | true };
+$inc?: {
+"city.coordinates.$"?: NonNullable<NonNullable<NonNullable<UserCreateInput["city"]>["coordinates"]>[number]>;
+"city.coordinates.$[]"?: NonNullable<NonNullable<NonNullable<UserCreateInput["city"]>["coordinates"]>[number]>;
+"requiredIsFunction"?: NonNullable<UserCreateInput["requiredIsFunction"]>;
+"decimal128"?: NonNullable<UserCreateInput["decimal128"]>;
+"otherDecimal128"?: NonNullable<UserCreateInput["otherDecimal128"]>;
+"numberString"?: NonNullable<UserCreateInput["numberString"]>;
+"otherNumberString"?: NonNullable<UserCreateInput["otherNumberString"]>;
+};
+$push?: { [path in keyof UserUpdateArrayElements]?: UserUpdateArrayElements[path] | { $each: UserUpdateArrayElements[path][] } };
+$addToSet?: { [path in keyof UserUpdateArrayElements]?: UserUpdateArrayElements[path] | { $each: UserUpdateArrayElements[path][] } };
+$pull?: { [path in keyof UserUpdateArrayElements]?: UserUpdateArrayElements[path] | Partial<UserUpdateArrayElements[path]> | { $in: UserUpdateArrayElements[path][] } };
+}
+
+/** Values of the paths of `UserFriendFilter`, or of their elements for array paths */
+export type UserFriendFilterValues = {
+"uid": UserFriend["uid"];
+"nickname": UserFriend["nickname"];
+"_id": UserFriend["_id"];
+}
+
+/**
+ * Filter of the `UserFriend` elements of subdocument arrays, used by `$elemMatch`
+ */
+export type UserFriendFilter = {
+[path in "uid" | "_id"]?: UserFriendFilterValues[path] | { $eq?: UserFriendFilterValues[path]; $ne?: UserFriendFilterValues[path]; $in?: UserFriendFilterValues[path][]; $nin?: UserFriendFilterValues[path][]; $exists?: boolean; $not?: { $eq?: UserFriendFilterValues[path]; $ne?: UserFriendFilterValues[path]; $in?: UserFriendFilterValues[path][]; $nin?: UserFriendFilterValues[path][]; $exists?: boolean } };
+} & {
+[path in "nickname"]?: UserFriendFilterValues[path] | RegExp | { $eq?: UserFriendFilterValues[path]; $ne?: UserFriendFilterValues[path]; $in?: UserFriendFilterValues[path][]; $nin?: UserFriendFilterValues[path][]; $gt?: UserFriendFilterValues[path]; $gte?: UserFriendFilterValues[path]; $lt?: UserFriendFilterValues[path]; $lte?: UserFriendFilterValues[path]; $regex?: string | RegExp; $options?: string; $exists?: boolean; $not?: RegExp | { $eq?: UserFriendFilterValues[path]; $ne?: UserFriendFilterValues[path]; $in?: UserFriendFilterValues[path][]; $nin?: UserFriendFilterValues[path][]; $gt?: UserFriendFilterValues[path]; $gte?: UserFriendFilterValues[path]; $lt?: UserFriendFilterValues[path]; $lte?: UserFriendFilterValues[path]; $regex?: string | RegExp; $options?: string; $exists?: boolean } };
+} & {
+$and?: UserFriendFilter[];
+$or?: UserFriendFilter[];
+$nor?: UserFriendFilter[];
+}
+
+/** Values of the paths of `UserCitySubdocWithoutDefaultFilter`, or of their elements for array paths */
+export type UserCitySubdocWithoutDefaultFilterValues = {
+"a": UserCitySubdocWithoutDefault["a"];
+"_id": UserCitySubdocWithoutDefault["_id"];
+}
+
+/**
+ * Filter of the `UserCitySubdocWithoutDefault` elements of subdocument arrays, used by `$elemMatch`
+ */
+export type UserCitySubdocWithoutDefaultFilter = {
+[path in "a"]?: UserCitySubdocWithoutDefaultFilterValues[path] | RegExp | { $eq?: UserCitySubdocWithoutDefaultFilterValues[path]; $ne?: UserCitySubdocWithoutDefaultFilterValues[path]; $in?: UserCitySubdocWithoutDefaultFilterValues[path][]; $nin?: UserCitySubdocWithoutDefaultFilterValues[path][]; $gt?: UserCitySubdocWithoutDefaultFilterValues[path]; $gte?: UserCitySubdocWithoutDefaultFilterValues[path]; $lt?: UserCitySubdocWithoutDefaultFilterValues[path]; $lte?: UserCitySubdocWithoutDefaultFilterValues[path]; $regex?: string | RegExp; $options?: string; $exists?: boolean; $not?: RegExp | { $eq?: UserCitySubdocWithoutDefaultFilterValues[path]; $ne?: UserCitySubdocWithoutDefaultFilterValues[path]; $in?: UserCitySubdocWithoutDefaultFilterValues[path][]; $nin?: UserCitySubdocWithoutDefaultFilterValues[path][]; $gt?: UserCitySubdocWithoutDefaultFilterValues[path]; $gte?: UserCitySubdocWithoutDefaultFilterValues[path]; $lt?: UserCitySubdocWithoutDefaultFilterValues[path]; $lte?: UserCitySubdocWithoutDefaultFilterValues[path]; $regex?: string | RegExp; $options?: string; $exists?: boolean } };
+} & {
+[path in "_id"]?: UserCitySubdocWithoutDefaultFilterValues[path] | { $eq?: UserCitySubdocWithoutDefaultFilterValues[path]; $ne?: UserCitySubdocWithoutDefaultFilterValues[path]; $in?: UserCitySubdocWithoutDefaultFilterValues[path][]; $nin?: UserCitySubdocWithoutDefaultFilterValues[path][]; $exists?: boolean; $not?: { $eq?: UserCitySubdocWithoutDefaultFilterValues[path]; $ne?: UserCitySubdocWithoutDefaultFilterValues[path]; $in?: UserCitySubdocWithoutDefaultFilterValues[path][]; $nin?: UserCitySubdocWithoutDefaultFilterValues[path][]; $exists?: boolean } };
+} & {
+$and?: UserCitySubdocWithoutDefaultFilter[];
+$or?: UserCitySubdocWithoutDefaultFilter[];
+$nor?: UserCitySubdocWithoutDefaultFilter[];
+}
+
+/** Values of the paths of `UserFilter`, or of their elements for array paths */
+export type UserFilterValues = {
+"email": User["email"];
+"firstName": User["firstName"];
+"lastName": User["lastName"];
+"metadata": User["metadata"];
+"bestFriend": User["bestFriend"];
+"friends": NonNullable<User["friends"]>[number];
+"friends.uid": NonNullable<User["friends"]>[number]["uid"];
+"friends.nickname": NonNullable<User["friends"]>[number]["nickname"];
+"friends._id": NonNullable<User["friends"]>[number]["_id"];
+"city": User["city"];
+"city.coordinates": NonNullable<NonNullable<User["city"]>["coordinates"]>[number];
+"city.subdocWithoutDefault": NonNullable<NonNullable<User["city"]>["subdocWithoutDefault"]>[number];
+"city.subdocWithoutDefault.a": NonNullable<NonNullable<User["city"]>["subdocWithoutDefault"]>[number]["a"];
+"city.subdocWithoutDefault._id": NonNullable<NonNullable<User["city"]>["subdocWithoutDefault"]>[number]["_id"];
+"tags": NonNullable<User["tags"]>[number];
+"alternateObjectId": User["alternateObjectId"];
+"socialMediaHandles": User["socialMediaHandles"];
+"arrayOfMaps": NonNullable<User["arrayOfMaps"]>[number];
+"mapOfArrays": User["mapOfArrays"];
+"requiredIsFunction": User["requiredIsFunction"];
+"buffer": User["buffer"];
+"bufferString": User["bufferString"];
+"bufferSchemaType": User["bufferSchemaType"];
+"decimal128": User["decimal128"];
+"otherDecimal128": User["otherDecimal128"];
+"numberString": User["numberString"];
+"stringString": User["stringString"];
+"otherNumberString": User["otherNumberString"];
+"otherStringString": User["otherStringString"];
+"enumWithNull": User["enumWithNull"];
+"enumWithoutNull": User["enumWithoutNull"];
+"_id": User["_id"];
+"socialMediaHandles.$*": NonNullable<User["socialMediaHandles"]> extends Map<string, infer V> ? V : never;
+"mapOfArrays.$*": NonNullable<User["mapOfArrays"]> extends Map<string, infer V> ? V : never;
+}
+
+/**
+ * Filter of `UserModel.find()`, `UserModel.findOne()`, `UserModel.countDocuments()` & co
+ * 
+ * Unlike `mongoose.FilterQuery`, only the paths of the schema are accepted:
+ * ```
+ * const filter: UserFilter = { "friends.nickname": { $regex: /^b/i } };
+ * ```
+ */
+export type UserFilter = {
+[path in "email" | "firstName" | "lastName" | "friends.nickname" | "city.subdocWithoutDefault.a" | "stringString" | "otherStringString" | "enumWithNull" | "enumWithoutNull"]?: UserFilterValues[path] | RegExp | { $eq?: UserFilterValues[path]; $ne?: UserFilterValues[path]; $in?: UserFilterValues[path][]; $nin?: UserFilterValues[path][]; $gt?: UserFilterValues[path]; $gte?: UserFilterValues[path]; $lt?: UserFilterValues[path]; $lte?: UserFilterValues[path]; $regex?: string | RegExp; $options?: string; $exists?: boolean; $not?: RegExp | { $eq?: UserFilterValues[path]; $ne?: UserFilterValues[path]; $in?: UserFilterValues[path][]; $nin?: UserFilterValues[path][]; $gt?: UserFilterValues[path]; $gte?: UserFilterValues[path]; $lt?: UserFilterValues[path]; $lte?: UserFilterValues[path]; $regex?: string | RegExp; $options?: string; $exists?: boolean } };
+} & {
+[path in "metadata" | "bestFriend" | "friends.uid" | "friends._id" | "city" | "city.subdocWithoutDefault._id" | "alternateObjectId" | "socialMediaHandles" | "mapOfArrays" | "buffer" | "bufferString" | "bufferSchemaType" | "_id"]?: UserFilterValues[path] | { $eq?: UserFilterValues[path]; $ne?: UserFilterValues[path]; $in?: UserFilterValues[path][]; $nin?: UserFilterValues[path][]; $exists?: boolean; $not?: { $eq?: UserFilterValues[path]; $ne?: UserFilterValues[path]; $in?: UserFilterValues[path][]; $nin?: UserFilterValues[path][]; $exists?: boolean } };
+} & {
+[path in "friends"]?: UserFilterValues[path] | UserFilterValues[path][] | { $eq?: UserFilterValues[path]; $ne?: UserFilterValues[path]; $in?: UserFilterValues[path][]; $nin?: UserFilterValues[path][]; $exists?: boolean; $all?: UserFilterValues[path][]; $size?: number; $elemMatch?: UserFriendFilter; $not?: { $eq?: UserFilterValues[path]; $ne?: UserFilterValues[path]; $in?: UserFilterValues[path][]; $nin?: UserFilterValues[path][]; $exists?: boolean; $all?: UserFilterValues[path][]; $size?: number; $elemMatch?: UserFriendFilter } };
+} & {
+[path in "city.coordinates"]?: UserFilterValues[path] | UserFilterValues[path][] | { $eq?: UserFilterValues[path]; $ne?: UserFilterValues[path]; $in?: UserFilterValues[path][]; $nin?: UserFilterValues[path][]; $gt?: UserFilterValues[path]; $gte?: UserFilterValues[path]; $lt?: UserFilterValues[path]; $lte?: UserFilterValues[path]; $exists?: boolean; $all?: UserFilterValues[path][]; $size?: number; $elemMatch?: { $eq?: UserFilterValues[path]; $ne?: UserFilterValues[path]; $in?: UserFilterValues[path][]; $nin?: UserFilterValues[path][]; $gt?: UserFilterValues[path]; $gte?: UserFilterValues[path]; $lt?: UserFilterValues[path]; $lte?: UserFilterValues[path] }; $not?: { $eq?: UserFilterValues[path]; $ne?: UserFilterValues[path]; $in?: UserFilterValues[path][]; $nin?: UserFilterValues[path][]; $gt?: UserFilterValues[path]; $gte?: UserFilterValues[path]; $lt?: UserFilterValues[path]; $lte?: UserFilterValues[path]; $exists?: boolean; $all?: UserFilterValues[path][]; $size?: number; $elemMatch?: { $eq?: UserFilterValues[path]; $ne?: UserFilterValues[path]; $in?: UserFilterValues[path][]; $nin?: UserFilterValues[path][]; $gt?: UserFilterValues[path]; $gte?: UserFilterValues[path]; $lt?: UserFilterValues[path]; $lte?: UserFilterValues[path] } } };
+} & {
+[path in "city.subdocWithoutDefault"]?: UserFilterValues[path] | UserFilterValues[path][] | { $eq?: UserFilterValues[path]; $ne?: UserFilterValues[path]; $in?: UserFilterValues[path][]; $nin?: UserFilterValues[path][]; $exists?: boolean; $all?: UserFilterValues[path][]; $size?: number; $elemMatch?: UserCitySubdocWithoutDefaultFilter; $not?: { $eq?: UserFilterValues[path]; $ne?: UserFilterValues[path]; $in?: UserFilterValues[path][]; $nin?: UserFilterValues[path][]; $exists?: boolean; $all?: UserFilterValues[path][]; $size?: number; $elemMatch?: UserCitySubdocWithoutDefaultFilter } };
+} & {
+[path in "tags"]?: UserFilterValues[path] | RegExp | UserFilterValues[path][] | { $eq?: UserFilterValues[path]; $ne?: UserFilterValues[path]; $in?: UserFilterValues[path][]; $nin?: UserFilterValues[path][]; $gt?: UserFilterValues[path]; $gte?: UserFilterValues[path]; $lt?: UserFilterValues[path]; $lte?: UserFilterValues[path]; $regex?: string | RegExp; $options?: string; $exists?: boolean; $all?: UserFilterValues[path][]; $size?: number; $elemMatch?: { $eq?: UserFilterValues[path]; $ne?: UserFilterValues[path]; $in?: UserFilterValues[path][]; $nin?: UserFilterValues[path][]; $gt?: UserFilterValues[path]; $gte?: UserFilterValues[path]; $lt?: UserFilterValues[path]; $lte?: UserFilterValues[path]; $regex?: string | RegExp; $options?: string }; $not?: RegExp | { $eq?: UserFilterValues[path]; $ne?: UserFilterValues[path]; $in?: UserFilterValues[path][]; $nin?: UserFilterValues[path][]; $gt?: UserFilterValues[path]; $gte?: UserFilterValues[path]; $lt?: UserFilterValues[path]; $lte?: UserFilterValues[path]; $regex?: string | RegExp; $options?: string; $exists?: boolean; $all?: UserFilterValues[path][]; $size?: number; $elemMatch?: { $eq?: UserFilterValues[path]; $ne?: UserFilterValues[path]; $in?: UserFilterValues[path][]; $nin?: UserFilterValues[path][]; $gt?: UserFilterValues[path]; $gte?: UserFilterValues[path]; $lt?: UserFilterValues[path]; $lte?: UserFilterValues[path]; $regex?: string | RegExp; $options?: string } } };
+} & {
+[path in "arrayOfMaps"]?: UserFilterValues[path] | UserFilterValues[path][] | { $eq?: UserFilterValues[path]; $ne?: UserFilterValues[path]; $in?: UserFilterValues[path][]; $nin?: UserFilterValues[path][]; $exists?: boolean; $all?: UserFilterValues[path][]; $size?: number; $elemMatch?: { $eq?: UserFilterValues[path]; $ne?: UserFilterValues[path]; $in?: UserFilterValues[path][]; $nin?: UserFilterValues[path][] }; $not?: { $eq?: UserFilterValues[path]; $ne?: UserFilterValues[path]; $in?: UserFilterValues[path][]; $nin?: UserFilterValues[path][]; $exists?: boolean; $all?: UserFilterValues[path][]; $size?: number; $elemMatch?: { $eq?: UserFilterValues[path]; $ne?: UserFilterValues[path]; $in?: UserFilterValues[path][]; $nin?: UserFilterValues[path][] } } };
+} & {
+[path in "requiredIsFunction" | "decimal128" | "otherDecimal128" | "numberString" | "otherNumberString"]?: UserFilterValues[path] | { $eq?: UserFilterValues[path]; $ne?: UserFilterValues[path]; $in?: UserFilterValues[path][]; $nin?: UserFilterValues[path][]; $gt?: UserFilterValues[path]; $gte?: UserFilterValues[path]; $lt?: UserFilterValues[path]; $lte?: UserFilterValues[path]; $exists?: boolean; $not?: { $eq?: UserFilterValues[path]; $ne?: UserFilterValues[path]; $in?: UserFilterValues[path][]; $nin?: UserFilterValues[path][]; $gt?: UserFilterValues[path]; $gte?: UserFilterValues[path]; $lt?: UserFilterValues[path]; $lte?: UserFilterValues[path]; $exists?: boolean } };
+} & {
+[path in `socialMediaHandles.${string}`]?: UserFilterValues["socialMediaHandles.$*"] | RegExp | { $eq?: UserFilterValues["socialMediaHandles.$*"]; $ne?: UserFilterValues["socialMediaHandles.$*"]; $in?: UserFilterValues["socialMediaHandles.$*"][]; $nin?: UserFilterValues["socialMediaHandles.$*"][]; $gt?: UserFilterValues["socialMediaHandles.$*"]; $gte?: UserFilterValues["socialMediaHandles.$*"]; $lt?: UserFilterValues["socialMediaHandles.$*"]; $lte?: UserFilterValues["socialMediaHandles.$*"]; $regex?: string | RegExp; $options?: string; $exists?: boolean; $not?: RegExp | { $eq?: UserFilterValues["socialMediaHandles.$*"]; $ne?: UserFilterValues["socialMediaHandles.$*"]; $in?: UserFilterValues["socialMediaHandles.$*"][]; $nin?: UserFilterValues["socialMediaHandles.$*"][]; $gt?: UserFilterValues["socialMediaHandles.$*"]; $gte?: UserFilterValues["socialMediaHandles.$*"]; $lt?: UserFilterValues["socialMediaHandles.$*"]; $lte?: UserFilterValues["socialMediaHandles.$*"]; $regex?: string | RegExp; $options?: string; $exists?: boolean } };
+} & {
+[path in `mapOfArrays.${string}`]?: UserFilterValues["mapOfArrays.$*"] | { $eq?: UserFilterValues["mapOfArrays.$*"]; $ne?: UserFilterValues["mapOfArrays.$*"]; $in?: UserFilterValues["mapOfArrays.$*"][]; $nin?: UserFilterValues["mapOfArrays.$*"][]; $exists?: boolean; $not?: { $eq?: UserFilterValues["mapOfArrays.$*"]; $ne?: UserFilterValues["mapOfArrays.$*"]; $in?: UserFilterValues["mapOfArrays.$*"][]; $nin?: UserFilterValues["mapOfArrays.$*"][]; $exists?: boolean } };
+} & {
+$and?: UserFilter[];
+$or?: UserFilter[];
+$nor?: UserFilter[];
+}
+
+/**
+ * Every path of `User` in dot notation, including nested paths and subdocuments
+ * 
+ * Used to check the paths passed to `select()`, `sort()` & co:
+ * ```
+ * const sort: UserSort = { _id: -1 };
+ * ```
+ */
+export type UserPaths = "email" | "firstName" | "lastName" | "metadata" | "bestFriend" | "friends" | "friends.uid" | "friends.nickname" | "friends._id" | "city" | "city.coordinates" | "city.subdocWithoutDefault" | "city.subdocWithoutDefault.a" | "city.subdocWithoutDefault._id" | "tags" | "alternateObjectId" | "socialMediaHandles" | "arrayOfMaps" | "mapOfArrays" | "requiredIsFunction" | "buffer" | "bufferString" | "bufferSchemaType" | "decimal128" | "otherDecimal128" | "numberString" | "stringString" | "otherNumberString" | "otherStringString" | "enumWithNull" | "enumWithoutNull" | "_id"
+
+/** Sort of `UserQuery.sort()` */
+export type UserSort = { [path in UserPaths]?: 1 | -1 | "asc" | "desc" | "ascending" | "descending" }
+
+/** Projection of `UserQuery.select()` & `UserModel.find()` */
+export type UserProjection = { [path in UserPaths]?: 0 | 1 | boolean }
+
 /**
  * Lean version of UserDocument (type alias of `User`)
  * 
@@ -220,6 +481,12 @@ export function IsPopulated<T>(doc: T | mongoose.Types.ObjectId): doc is T {
   return doc instanceof mongoose.Document;
 }
 
+/**
+ * Key under which `Selectable` types keep the fields declared with `select: false`, so that `.select("+field")` can
+ * add them back. It only exists in types, documents never have it.
+ */
+export declare const deselectedFields: unique symbol;
+
 /**
  * Helper type used by `PopulatedDocument`. Returns the parent property of a string 
  * representing a nested property (i.e. `friend.user` -> `friend`)
@@ -281,22 +548,92 @@ T
 /**
  * Helper types used by the populate overloads
  */
-type Unarray<T> = T extends Array<infer U> ? U : T;
 type Modify<T, R> = Omit<T, keyof R> & R;
 
 /**
- * Augment mongoose with Query.populate overloads
+ * Narrows the documents of a query result to the populated paths. Projected documents aren't assignable to the query's
+ * document type, so any object is narrowed.
+ */
+type PopulatedResult<ResultType, T> = ResultType extends Array<infer U>
+  ? (U extends object ? Array<PopulatedDocument<U, T>> : ResultType)
+  : ResultType extends object
+  ? PopulatedDocument<ResultType, T>
+  : ResultType;
+
+/**
+ * Helper types used by the select overloads. Projections are converted to a union of paths, where excluded paths are
+ * prefixed with `-` (i.e. `"name -email"` and `{ name: 1, email: 0 }` -> `"name" | "-email"`)
+ */
+type SplitSelect<S extends string> = S extends `${infer Head} ${infer Rest}` ? Head | SplitSelect<Rest> : S;
+type ProjectionPaths<P> = { [K in keyof P]: P[K] extends 0 | false ? `-${K & string}` : K & string }[keyof P];
+type RootProperty<T> = T extends `${infer P}.${string}` ? P : T;
+type ExcludedProperty<T> = T extends `-${infer P}` ? (P extends `${string}.${string}` ? never : P) : never;
+type IncludedProperty<T> = T extends `-${string}` | `+${string}` | "" ? never : RootProperty<T>;
+/** Properties added back with `+` (i.e. `"+password"`), for fields declared with `select: false` */
+type AddedProperty<T> = T extends `+${infer P}` ? RootProperty<P> : never;
+/** Properties holding the fields of a document, as opposed to its methods & the members of `mongoose.Document` */
+type FieldProperty<T> = Exclude<
+  { [K in keyof T]: T[K] extends Function ? never : K }[keyof T],
+  Exclude<keyof mongoose.Document, "_id">
+>;
+
+/**
+ * Narrows a document to the paths selected by a projection. Inclusive projections keep `_id` unless it's excluded,
+ * exclusive projections only remove the root properties they exclude.
+ */
+type ProjectedDocument<T, Paths extends string> = [IncludedProperty<Paths>] extends [never]
+  ? Omit<T, ExcludedProperty<Paths>>
+  : Omit<
+      T,
+      Exclude<
+        FieldProperty<T>,
+        IncludedProperty<Paths> | AddedProperty<Paths> | ("-_id" extends Paths ? never : "_id")
+      >
+    >;
+/** The `select: false` fields kept by `Selectable` types under the `deselectedFields` key, added back once they're selected */
+type SelectedFields<T, Paths extends string> = typeof deselectedFields extends keyof T
+  ? T extends { [deselectedFields]?: infer D }
+    ? Pick<D, Extract<IncludedProperty<Paths> | AddedProperty<Paths>, keyof D>>
+    : {}
+  : {};
+type SelectedDocument<T, Paths extends string> = ProjectedDocument<T, Paths> & SelectedFields<T, Paths>;
+type ProjectedResult<ResultType, Paths extends string> = ResultType extends Array<infer U>
+  ? Array<SelectedDocument<U, Paths>>
+  : ResultType extends object
+  ? SelectedDocument<ResultType, Paths>
+  : ResultType;
+
+/**
+ * Augment mongoose with Query.populate & Query.select overloads
  */
 declare module "mongoose" {
   interface Query<ResultType, DocType, THelpers = {}> {
     populate<T extends string>(path: T, select?: string | any, model?: string | Model<any, THelpers>, match?: any): Query<
-      ResultType extends Array<DocType> ? Array<PopulatedDocument<Unarray<ResultType>, T>> : (ResultType extends DocType ? PopulatedDocument<Unarray<ResultType>, T> : ResultType),
+      PopulatedResult<ResultType, T>,
       DocType,
       THelpers
     > & THelpers;
 
     populate<T extends string>(options: Modify<PopulateOptions, { path: T }> | Array<PopulateOptions>): Query<
-      ResultType extends Array<DocType> ? Array<PopulatedDocument<Unarray<ResultType>, T>> : (ResultType extends DocType ? PopulatedDocument<Unarray<ResultType>, T> : ResultType),
+      PopulatedResult<ResultType, T>,
+      DocType,
+      THelpers
+    > & THelpers;
+
+    select<S extends string>(arg: S | ReadonlyArray<S>): Query<
+      ProjectedResult<ResultType, SplitSelect<S>>,
+      DocType,
+      THelpers
+    > & THelpers;
+
+    select<P extends { [path: string]: 0 | 1 | boolean }>(arg: P): Query<
+      ProjectedResult<ResultType, ProjectionPaths<P>>,
+      DocType,
+      THelpers
+    > & THelpers;
+
+    projection<P extends { [path: string]: 0 | 1 | boolean }>(fields: P): Query<
+      ProjectedResult<ResultType, ProjectionPaths<P>>,
       DocType,
       THelpers
     > & THelpers;
@@ -30,11 +30,141 @@ city: string;
 export type User2 = {
 _id: number;
 lastOnlineAt?: Date;
-updatedAt?: Date;
-createdAt?: Date;
+username?: string;
+nn?: string;
+password: string;
+updatedAt: Date;
+createdAt: Date;
 address: User2Address;
 }
 
+/**
+ * `User2` without the fields declared with `select: false`, which queries leave out by default
+ * 
+ * Select these fields explicitly to get them back:
+ * ```
+ * const user2 = await User2.findOne(filter).select("+password");
+ * ```
+ */
+export type User2Selectable = Omit<User2, "password"> & {
+/** Types of the fields declared with `select: false`, added back to query results by `.select("+password")` */
+[deselectedFields]?: Pick<User2, "password">;
+}
+
+/**
+ * `User2` along with the aliases of its paths, as returned by `user2.toObject({ virtuals: true })`
+ * 
+ * `User2` only has the paths as stored in MongoDB, as returned by lean queries.
+ */
+export type User2Aliased = User2 & {
+[path in keyof User2 as path extends "nn" ? "nickname" : never]: User2[path];
+}
+
+/**
+ * Input of `User2Address` subdocuments when creating their parent document
+ * 
+ * Fields with defaults and fields generated by Mongoose (`_id`, timestamps) are optional, virtuals are omitted.
+ */
+export type User2AddressCreateInput = {
+city: string;
+}
+
+/**
+ * Input of `User2Model.create()`
+ * 
+ * Fields with defaults and fields generated by Mongoose (`_id`, timestamps) are optional, virtuals are omitted.
+ */
+export type User2CreateInput = {
+_id: number;
+lastOnlineAt?: Date;
+username?: string;
+nn?: string;
+password: string;
+address: User2AddressCreateInput;
+}
+
+/** Values of the paths of `User2Update` */
+export type User2UpdateValues = {
+"lastOnlineAt": User2CreateInput["lastOnlineAt"];
+"username": User2CreateInput["username"];
+"nn": User2CreateInput["nn"];
+"password": User2CreateInput["password"];
+"address": User2CreateInput["address"];
+"address.city": NonNullable<User2CreateInput["address"]>["city"];
+}
+
+/** Elements of the array paths of `User2Update` */
+export type User2UpdateArrayElements = {
+}
+
+/**
+ * Update document of `User2Model.updateOne()`, `User2Model.findOneAndUpdate()` & co
+ * 
+ * Array elements can be updated using the `$` and `$[]` positional operators:
+ * ```
+ * const update: User2Update = { $set: { "friends.$.name": "Bob" } };
+ * ```
+ */
+export type User2Update = {
+$set?: Partial<User2UpdateValues>;
+$unset?: { [path in keyof User2UpdateValues]?: "" | 1 | true };
+$inc?: {
+"_id"?: NonNullable<User2CreateInput["_id"]>;
+};
+$push?: { [path in keyof User2UpdateArrayElements]?: User2UpdateArrayElements[path] | { $each: User2UpdateArrayElements[path][] } };
+$addToSet?: { [path in keyof User2UpdateArrayElements]?: User2UpdateArrayElements[path] | { $each: User2UpdateArrayElements[path][] } };
+$pull?: { [path in keyof User2UpdateArrayElements]?: User2UpdateArrayElements[path] | Partial<User2UpdateArrayElements[path]> | { $in: User2UpdateArrayElements[path][] } };
+}
+
+/** Values of the paths of `User2Filter`, or of their elements for array paths */
+export type User2FilterValues = {
+"_id": User2["_id"];
+"lastOnlineAt": User2["lastOnlineAt"];
+"username": User2["username"];
+"nn": User2["nn"];
+"password": User2["password"];
+"updatedAt": User2["updatedAt"];
+"createdAt": User2["createdAt"];
+"address": User2["address"];
+"address.city": NonNullable<User2["address"]>["city"];
+}
+
+/**
+ * Filter of `User2Model.find()`, `User2Model.findOne()`, `User2Model.countDocuments()` & co
+ * 
+ * Unlike `mongoose.FilterQuery`, only the paths of the schema are accepted:
+ * ```
+ * const filter: User2Filter = { "friends.nickname": { $regex: /^b/i } };
+ * ```
+ */
+export type User2Filter = {
+[path in "_id" | "lastOnlineAt" | "updatedAt" | "createdAt"]?: User2FilterValues[path] | { $eq?: User2FilterValues[path]; $ne?: User2FilterValues[path]; $in?: User2FilterValues[path][]; $nin?: User2FilterValues[path][]; $gt?: User2FilterValues[path]; $gte?: User2FilterValues[path]; $lt?: User2FilterValues[path]; $lte?: User2FilterValues[path]; $exists?: boolean; $not?: { $eq?: User2FilterValues[path]; $ne?: User2FilterValues[path]; $in?: User2FilterValues[path][]; $nin?: User2FilterValues[path][]; $gt?: User2FilterValues[path]; $gte?: User2FilterValues[path]; $lt?: User2FilterValues[path]; $lte?: User2FilterValues[path]; $exists?: boolean } };
+} & {
+[path in "username" | "nn" | "password" | "address.city"]?: User2FilterValues[path] | RegExp | { $eq?: User2FilterValues[path]; $ne?: User2FilterValues[path]; $in?: User2FilterValues[path][]; $nin?: User2FilterValues[path][]; $gt?: User2FilterValues[path]; $gte?: User2FilterValues[path]; $lt?: User2FilterValues[path]; $lte?: User2FilterValues[path]; $regex?: string | RegExp; $options?: string; $exists?: boolean; $not?: RegExp | { $eq?: User2FilterValues[path]; $ne?: User2FilterValues[path]; $in?: User2FilterValues[path][]; $nin?: User2FilterValues[path][]; $gt?: User2FilterValues[path]; $gte?: User2FilterValues[path]; $lt?: User2FilterValues[path]; $lte?: User2FilterValues[path]; $regex?: string | RegExp; $options?: string; $exists?: boolean } };
+} & {
+[path in "address"]?: User2FilterValues[path] | { $eq?: User2FilterValues[path]; $ne?: User2FilterValues[path]; $in?: User2FilterValues[path][]; $nin?: User2FilterValues[path][]; $exists?: boolean; $not?: { $eq?: User2FilterValues[path]; $ne?: User2FilterValues[path]; $in?: User2FilterValues[path][]; $nin?: User2FilterValues[path][]; $exists?: boolean } };
+} & {
+$and?: User2Filter[];
+$or?: User2Filter[];
+$nor?: User2Filter[];
+}
+
+/**
+ * Every path of `User2` in dot notation, including nested paths and subdocuments
+ * 
+ * Used to check the paths passed to `select()`, `sort()` & co:
+ * ```
+ * const sort: User2Sort = { _id: -1 };
+ * ```
+ */
+export type User2Paths = "_id" | "lastOnlineAt" | "username" | "nn" | "password" | "updatedAt" | "createdAt" | "address" | "address.city"
+
+/** Sort of `User2Query.sort()` */
+export type User2Sort = { [path in User2Paths]?: 1 | -1 | "asc" | "desc" | "ascending" | "descending" }
+
+/** Projection of `User2Query.select()` & `User2Model.find()` */
+export type User2Projection = { [path in User2Paths]?: 0 | 1 | boolean }
+
 /**
  * Lean version of User2Document (type alias of `User2`)
  * 
@@ -69,6 +199,20 @@ export type User2Methods = {
 export type User2Statics = {
 }
 
+/**
+ * Queries of `User2Model` returning documents without the fields declared with `select: false`
+ * 
+ * These take precedence over the queries of `mongoose.Model`. Select the fields explicitly to get them back:
+ * ```
+ * const user2 = await User2.findOne(filter).select("+field");
+ * ```
+ */
+export type User2SelectableQueries = {
+find(filter?: mongoose.FilterQuery<User2Document>, projection?: any | null, options?: mongoose.QueryOptions | null): mongoose.QueryWithHelpers<User2DocumentSelectable[], User2Document, User2Queries>;
+findOne(filter?: mongoose.FilterQuery<User2Document>, projection?: any | null, options?: mongoose.QueryOptions | null): mongoose.QueryWithHelpers<User2DocumentSelectable | null, User2Document, User2Queries>;
+findById(id: any, projection?: any | null, options?: mongoose.QueryOptions | null): mongoose.QueryWithHelpers<User2DocumentSelectable | null, User2Document, User2Queries>;
+}
+
 /**
  * Mongoose Model type
  * 
@@ -77,7 +221,7 @@ export type User2Statics = {
  * const User2 = mongoose.model<User2Document, User2Model>("User2", User2Schema);
  * ```
  */
-export type User2Model = mongoose.Model<User2Document, User2Queries> & User2Statics
+export type User2Model = User2SelectableQueries & mongoose.Model<User2Document, User2Queries> & User2Statics
 
 /**
  * Mongoose Schema type
@@ -112,11 +256,28 @@ city: string;
 export type User2Document = mongoose.Document<number, User2Queries> & User2Methods & {
 _id: number;
 lastOnlineAt?: Date;
-updatedAt?: Date;
-createdAt?: Date;
+readonly username?: string;
+nn?: string;
+nickname?: string;
+password: string;
+updatedAt: Date;
+readonly createdAt: Date;
 address: User2AddressDocument;
 }
 
+/**
+ * `User2Document` without the fields declared with `select: false`, which queries leave out by default
+ * 
+ * Select these fields explicitly to get them back:
+ * ```
+ * const user2 = await User2.findOne(filter).select("+password");
+ * ```
+ */
+export type User2DocumentSelectable = Omit<User2Document, "password"> & {
+/** Types of the fields declared with `select: false`, added back to query results by `.select("+password")` */
+[deselectedFields]?: Pick<User2Document, "password">;
+}
+
 /**
  * Check if a property on a document is populated:
  * ```
@@ -129,6 +290,12 @@ export function IsPopulated<T>(doc: T | mongoose.Types.ObjectId): doc is T {
   return doc instanceof mongoose.Document;
 }
 
+/**
+ * Key under which `Selectable` types keep the fields declared with `select: false`, so that `.select("+field")` can
+ * add them back. It only exists in types, documents never have it.
+ */
+export declare const deselectedFields: unique symbol;
+
 /**
  * Helper type used by `PopulatedDocument`. Returns the parent property of a string 
  * representing a nested property (i.e. `friend.user` -> `friend`)
@@ -190,22 +357,92 @@ T
 /**
  * Helper types used by the populate overloads
  */
-type Unarray<T> = T extends Array<infer U> ? U : T;
 type Modify<T, R> = Omit<T, keyof R> & R;
 
 /**
- * Augment mongoose with Query.populate overloads
+ * Narrows the documents of a query result to the populated paths. Projected documents aren't assignable to the query's
+ * document type, so any object is narrowed.
+ */
+type PopulatedResult<ResultType, T> = ResultType extends Array<infer U>
+  ? (U extends object ? Array<PopulatedDocument<U, T>> : ResultType)
+  : ResultType extends object
+  ? PopulatedDocument<ResultType, T>
+  : ResultType;
+
+/**
+ * Helper types used by the select overloads. Projections are converted to a union of paths, where excluded paths are
+ * prefixed with `-` (i.e. `"name -email"` and `{ name: 1, email: 0 }` -> `"name" | "-email"`)
+ */
+type SplitSelect<S extends string> = S extends `${infer Head} ${infer Rest}` ? Head | SplitSelect<Rest> : S;
+type ProjectionPaths<P> = { [K in keyof P]: P[K] extends 0 | false ? `-${K & string}` : K & string }[keyof P];
+type RootProperty<T> = T extends `${infer P}.${string}` ? P : T;
+type ExcludedProperty<T> = T extends `-${infer P}` ? (P extends `${string}.${string}` ? never : P) : never;
+type IncludedProperty<T> = T extends `-${string}` | `+${string}` | "" ? never : RootProperty<T>;
+/** Properties added back with `+` (i.e. `"+password"`), for fields declared with `select: false` */
+type AddedProperty<T> = T extends `+${infer P}` ? RootProperty<P> : never;
+/** Properties holding the fields of a document, as opposed to its methods & the members of `mongoose.Document` */
+type FieldProperty<T> = Exclude<
+  { [K in keyof T]: T[K] extends Function ? never : K }[keyof T],
+  Exclude<keyof mongoose.Document, "_id">
+>;
+
+/**
+ * Narrows a document to the paths selected by a projection. Inclusive projections keep `_id` unless it's excluded,
+ * exclusive projections only remove the root properties they exclude.
+ */
+type ProjectedDocument<T, Paths extends string> = [IncludedProperty<Paths>] extends [never]
+  ? Omit<T, ExcludedProperty<Paths>>
+  : Omit<
+      T,
+      Exclude<
+        FieldProperty<T>,
+        IncludedProperty<Paths> | AddedProperty<Paths> | ("-_id" extends Paths ? never : "_id")
+      >
+    >;
+/** The `select: false` fields kept by `Selectable` types under the `deselectedFields` key, added back once they're selected */
+type SelectedFields<T, Paths extends string> = typeof deselectedFields extends keyof T
+  ? T extends { [deselectedFields]?: infer D }
+    ? Pick<D, Extract<IncludedProperty<Paths> | AddedProperty<Paths>, keyof D>>
+    : {}
+  : {};
+type SelectedDocument<T, Paths extends string> = ProjectedDocument<T, Paths> & SelectedFields<T, Paths>;
+type ProjectedResult<ResultType, Paths extends string> = ResultType extends Array<infer U>
+  ? Array<SelectedDocument<U, Paths>>
+  : ResultType extends object
+  ? SelectedDocument<ResultType, Paths>
+  : ResultType;
+
+/**
+ * Augment mongoose with Query.populate & Query.select overloads
  */
 declare module "mongoose" {
   interface Query<ResultType, DocType, THelpers = {}> {
     populate<T extends string>(path: T, select?: string | any, model?: string | Model<any, THelpers>, match?: any): Query<
-      ResultType extends Array<DocType> ? Array<PopulatedDocument<Unarray<ResultType>, T>> : (ResultType extends DocType ? PopulatedDocument<Unarray<ResultType>, T> : ResultType),
+      PopulatedResult<ResultType, T>,
       DocType,
       THelpers
     > & THelpers;
 
     populate<T extends string>(options: Modify<PopulateOptions, { path: T }> | Array<PopulateOptions>): Query<
-      ResultType extends Array<DocType> ? Array<PopulatedDocument<Unarray<ResultType>, T>> : (ResultType extends DocType ? PopulatedDocument<Unarray<ResultType>, T> : ResultType),
+      PopulatedResult<ResultType, T>,
+      DocType,
+      THelpers
+    > & THelpers;
+
+    select<S extends string>(arg: S | ReadonlyArray<S>): Query<
+      ProjectedResult<ResultType, SplitSelect<S>>,
+      DocType,
+      THelpers
+    > & THelpers;
+
+    select<P extends { [path: string]: 0 | 1 | boolean }>(arg: P): Query<
+      ProjectedResult<ResultType, ProjectionPaths<P>>,
+      DocType,
+      THelpers
+    > & THelpers;
+
+    projection<P extends { [path: string]: 0 | 1 | boolean }>(fields: P): Query<
+      ProjectedResult<ResultType, ProjectionPaths<P>>,
       DocType,
       THelpers
     > & THelpers;
@@ -23,6 +23,19 @@ const User2Schema: User2Schema = new mongoose.Schema(
       required: true,
     },
     lastOnlineAt: Date,
+    username: {
+      type: String,
+      immutable: true,
+    },
+    nn: {
+      type: String,
+      alias: 'nickname',
+    },
+    password: {
+      type: String,
+      required: true,
+      select: false,
+    },
   },
   {
     timestamps: true,
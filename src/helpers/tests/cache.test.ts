@@ -0,0 +1,62 @@
+import { writeModelFile, cleanup, cleanupCache } from "./utils";
+import { generate } from "../../generate";
+import fs from "fs";
+import path from "path";
+
+// model files are reloaded between runs by resetting jest's module registry, so these tests are kept apart from the
+// other generator tests
+
+describe("cache", () => {
+  beforeAll(cleanup);
+
+  afterEach(cleanup);
+  afterEach(cleanupCache);
+
+  test("updates the unions of cached base models when discriminators change in other files", async () => {
+    writeModelFile("activity", [
+      `import mongoose, { Schema } from "mongoose";`,
+      `export const Activity = mongoose.model("Activity", new Schema({ name: String }));`
+    ]);
+    writeModelFile("clickActivity", [
+      `import { Schema } from "mongoose";`,
+      `import { Activity } from "./activity";`,
+      `export const ClickActivity = Activity.discriminator("ClickActivity", new Schema({ element: String }));`
+    ]);
+
+    const options = {
+      modelsPath: "./src/helpers/tests/models",
+      project: "tsconfig.test.json",
+      output: "mtgen-test.ts",
+      "no-format": true,
+      cache: true
+    };
+    // jest keeps its own registry of the loaded modules, which `generate` can't clear
+    const generateFresh = () => {
+      jest.resetModules();
+      return generate(options);
+    };
+
+    const firstResult = await generateFresh();
+    expect(firstResult.files[0].content).toContain(
+      `export type ActivityUnion = (Activity & { __t?: undefined }) | ClickActivity\n`
+    );
+
+    writeModelFile("keyActivity", [
+      `import { Schema } from "mongoose";`,
+      `import { Activity } from "./activity";`,
+      `export const KeyActivity = Activity.discriminator("KeyActivity", new Schema({ key: String }));`
+    ]);
+    const addedResult = await generateFresh();
+    expect(addedResult.diagnostics).toContainEqual({
+      level: "debug",
+      message: "cache: 2 of 3 model file(s) unchanged"
+    });
+    expect(addedResult.files[0].content).toContain(
+      `export type ActivityUnion = (Activity & { __t?: undefined }) | ClickActivity | KeyActivity\n`
+    );
+
+    fs.unlinkSync(path.join(__dirname, "models/keyActivity.ts"));
+    const removedResult = await generateFresh();
+    expect(removedResult.files).toEqual(firstResult.files);
+  });
+});
@@ -0,0 +1,205 @@
+import { setupFolderStructure, cleanup } from "./utils";
+import MongooseTsgen from "../../commands";
+import Init from "../../commands/init";
+import cli from "cli-ux";
+const path = require("path");
+const fs = require("fs");
+const mkdirp = require("mkdirp");
+
+// cli-ux exposes its prompts as getters, which can't be spied on
+jest.mock("cli-ux", () => ({ __esModule: true, default: { prompt: jest.fn(), confirm: jest.fn() } }));
+
+// ensure folders are cleaned before starting and after each test
+beforeEach(cleanup);
+afterAll(cleanup);
+
+describe("mtgen", () => {
+  const configFolder = path.join(__dirname, "dist");
+
+  const writeConfig = (config: object) => {
+    mkdirp.sync(configFolder);
+    fs.writeFileSync(path.join(configFolder, "mtgen.config.json"), JSON.stringify(config));
+  };
+
+  // the oclif config is only used when running the command
+  const getConfig = (argv: string[]): ReturnType<MongooseTsgen["getConfig"]> =>
+    (new MongooseTsgen(["--config", configFolder, ...argv], {} as any) as any).getConfig();
+
+  const projectsConfig = {
+    output: "./src/types",
+    "no-format": true,
+    projects: [
+      { name: "api", modelsPath: "./api/models" },
+      { name: "web", modelsPath: "./web/models", output: "./web/types" }
+    ]
+  };
+
+  test("runs a single project when no projects are configured", () => {
+    writeConfig({ output: "./src/types" });
+
+    expect(getConfig(["./models"])).toEqual([
+      {
+        name: undefined,
+        flags: { output: "./src/types", project: "./", modelsPath: "./models" }
+      }
+    ]);
+  });
+
+  test("merges the shared settings, project settings and CLI flags of each project", () => {
+    writeConfig(projectsConfig);
+
+    expect(getConfig(["--dry-run"])).toEqual([
+      {
+        name: "api",
+        flags: {
+          output: "./src/types",
+          "no-format": true,
+          "dry-run": true,
+          project: "./",
+          modelsPath: "./api/models"
+        }
+      },
+      {
+        name: "web",
+        flags: {
+          output: "./web/types",
+          "no-format": true,
+          "dry-run": true,
+          project: "./",
+          modelsPath: "./web/models"
+        }
+      }
+    ]);
+
+    // CLI flags take precedence over the project settings
+    expect(getConfig(["--output", "./types"]).map(({ flags }) => flags.output)).toEqual([
+      "./types",
+      "./types"
+    ]);
+  });
+
+  test("selects a project using --project-name", () => {
+    writeConfig(projectsConfig);
+
+    expect(getConfig(["--project-name", "web", "./models"])).toEqual([
+      {
+        name: "web",
+        flags: {
+          output: "./web/types",
+          "no-format": true,
+          project: "./",
+          modelsPath: "./models"
+        }
+      }
+    ]);
+  });
+
+  test("--project-name errors", () => {
+    writeConfig({ output: "./src/types" });
+    expect(() => getConfig(["--project-name", "api"])).toThrow(
+      new Error(`--project-name was provided but no "projects" were found in mtgen.config.json.`)
+    );
+
+    writeConfig(projectsConfig);
+    expect(() => getConfig(["--project-name", "admin"])).toThrow(
+      new Error(`No project named "admin" found in mtgen.config.json.`)
+    );
+  });
+
+  test("MODEL_PATH and --watch error when running multiple projects", () => {
+    writeConfig(projectsConfig);
+
+    expect(() => getConfig(["./models"])).toThrow(
+      new Error(
+        `MODEL_PATH can only be provided when running a single project. Use --project-name to select one.`
+      )
+    );
+    expect(() => getConfig(["--watch"])).toThrow(
+      new Error(
+        `--watch can only be used when running a single project. Use --project-name to select one.`
+      )
+    );
+
+    writeConfig({ ...projectsConfig, projects: [{ name: "api", watch: true }, { name: "web" }] });
+    expect(() => getConfig([])).toThrow(
+      new Error(
+        `--watch can only be used when running a single project. Use --project-name to select one.`
+      )
+    );
+
+    expect(getConfig(["--project-name", "api"])[0].flags.watch).toBe(true);
+  });
+});
+
+describe("mtgen init", () => {
+  const projectFolder = path.join(__dirname, "dist/app");
+  const initialCwd = process.cwd();
+  const isTTY = process.stdin.isTTY;
+
+  const init = (argv: string[]) => new Init(argv, {} as any).run();
+  const readJson = (fileName: string) =>
+    JSON.parse(fs.readFileSync(path.join(projectFolder, fileName), "utf8"));
+
+  beforeEach(() => {
+    setupFolderStructure("./dist/app/src/models", "user");
+    fs.writeFileSync(path.join(projectFolder, "tsconfig.json"), "{}");
+    fs.writeFileSync(path.join(projectFolder, "package.json"), `{ "name": "app" }`);
+    process.chdir(projectFolder);
+    jest.spyOn(Init.prototype, "log").mockReturnValue(undefined);
+  });
+
+  afterEach(() => {
+    process.chdir(initialCwd);
+    process.stdin.isTTY = isTTY;
+    jest.restoreAllMocks();
+  });
+
+  test("writes the detected models folder and tsconfig", async () => {
+    await init(["--yes"]);
+
+    expect(readJson("mtgen.config.json")).toEqual({
+      $schema: "./node_modules/mongoose-tsgen/schemas/mtgen.config.schema.json",
+      modelsPath: "./src/models",
+      project: "./tsconfig.json",
+      output: "./src/interfaces"
+    });
+    // the schema is resolved from the installed package, which ships the schemas folder
+    expect(fs.existsSync(path.join(initialCwd, "schemas/mtgen.config.schema.json"))).toBe(true);
+    expect(readJson("package.json")).toEqual({ name: "app" });
+  });
+
+  test("adds the npm script to package.json", async () => {
+    await init(["--yes", "--script", "types", "--output", "./src/types"]);
+
+    expect(readJson("mtgen.config.json").output).toBe("./src/types");
+    expect(readJson("package.json")).toEqual({ name: "app", scripts: { types: "mtgen" } });
+  });
+
+  test("only prompts for the npm script when other values aren't provided as flags", async () => {
+    process.stdin.isTTY = true;
+    const confirm = (cli.confirm as jest.Mock).mockResolvedValue(true);
+    const prompt = (cli.prompt as jest.Mock).mockResolvedValue("");
+
+    await init(["-m", "./src/models", "-p", "./tsconfig.json", "-o", "./src/types"]);
+    expect(prompt).not.toHaveBeenCalled();
+    expect(confirm).not.toHaveBeenCalled();
+    expect(readJson("package.json")).toEqual({ name: "app" });
+
+    await init(["--force", "-m", "./src/models", "-p", "./tsconfig.json"]);
+    expect(prompt).toHaveBeenCalledTimes(1);
+    expect(confirm).toHaveBeenCalledTimes(1);
+    expect(readJson("package.json")).toEqual({ name: "app", scripts: { mtgen: "mtgen" } });
+  });
+
+  test("doesn't overwrite an existing config file without --force", async () => {
+    fs.writeFileSync(path.join(projectFolder, "mtgen.config.js"), "module.exports = {};");
+
+    await expect(init(["--yes"])).rejects.toThrow(
+      "mtgen.config.js already exists. Use --force to overwrite it with a new mtgen.config.json."
+    );
+    expect(fs.existsSync(path.join(projectFolder, "mtgen.config.json"))).toBe(false);
+
+    await init(["--yes", "--force"]);
+    expect(fs.existsSync(path.join(projectFolder, "mtgen.config.json"))).toBe(true);
+  });
+});
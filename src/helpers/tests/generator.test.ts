@@ -1,11 +1,13 @@
-import { setupFolderStructure, cleanup } from "./utils";
+import { setupFolderStructure, writeModelFile, cleanup, cleanupCache } from "./utils";
 import * as parser from "../parser";
 import * as generator from "../generator";
 import * as paths from "../paths";
 import * as tsReader from "../tsReader";
+import { generate } from "../../generate";
 import fs from "fs";
 import path from "path";
 import mongoose from "mongoose";
+import { Project } from "ts-morph";
 
 function getExpectedString(filename: string) {
   return fs.readFileSync(path.join(__dirname, `artifacts/${filename}`), "utf8");
@@ -83,3 +85,398 @@ describe("generateTypes", () => {
     expect(sourceFile.getFullText().trim()).toBe(getExpectedString("user2.gen.ts").trim());
   });
 });
+
+// type checks code using the generated types of the artifacts. `@ts-expect-error` comments fail the check if the line
+// they precede compiles, so the expected errors are asserted along with the absence of other errors.
+describe("generated types", () => {
+  const getConsumerDiagnostics = (lines: string[]) => {
+    const project = new Project({
+      compilerOptions: { strict: true, esModuleInterop: true, skipLibCheck: true, noEmit: true }
+    });
+    const consumerFile = project.createSourceFile(path.join(__dirname, "consumer.ts"), lines.join("\n"));
+    return consumerFile.getPreEmitDiagnostics().map(diagnostic => diagnostic.getMessageText());
+  };
+
+  test("leaves fields declared with `select: false` out of query results until they're selected", () => {
+    const diagnostics = getConsumerDiagnostics([
+      `import { User2Model } from "./artifacts/user2.gen";`,
+      `declare const User2: User2Model;`,
+      `const run = async () => {`,
+      `  const user = await User2.findOne({ username: "bob" });`,
+      `  // @ts-expect-error`,
+      `  user?.password;`,
+      `  const users = await User2.find();`,
+      `  // @ts-expect-error`,
+      `  users[0].password;`,
+      `  const selected = await User2.findOne().select("+password");`,
+      `  const password: string | undefined = selected?.password;`,
+      `  return password;`,
+      `};`
+    ]);
+
+    expect(diagnostics).toEqual([]);
+  });
+
+  test("types the conditions of `$not` and the `$elemMatch` of subdocument arrays", () => {
+    const diagnostics = getConsumerDiagnostics([
+      `import { UserFilter } from "./artifacts/user.gen";`,
+      `const byFriend: UserFilter = { friends: { $elemMatch: { nickname: /^b/, uid: { $exists: true } } } };`,
+      `// @ts-expect-error`,
+      `const byUnknownField: UserFilter = { friends: { $elemMatch: { name: "bob" } } };`,
+      `const byNotEmail: UserFilter = { email: { $not: /@example.com$/ } };`,
+      `const byNotNumber: UserFilter = { numberString: { $not: { $gt: 5 } } };`,
+      `// @ts-expect-error`,
+      `const byNotWrongType: UserFilter = { numberString: { $not: { $gt: "5" } } };`,
+      `export const filters = [byFriend, byUnknownField, byNotEmail, byNotNumber, byNotWrongType];`
+    ]);
+
+    expect(diagnostics).toEqual([]);
+  });
+});
+
+describe("generate", () => {
+  beforeAll(cleanup);
+
+  afterEach(cleanup);
+  afterEach(cleanupModelsInMemory);
+
+  test("returns generated content and diagnostics without writing to disk", async () => {
+    setupFolderStructure("./models", "user", true);
+
+    const result = await generate({
+      modelsPath: "./src/helpers/tests/models/user.ts",
+      project: "tsconfig.test.json",
+      output: "mtgen-test.ts",
+      "no-format": true
+    });
+
+    expect(result.files).toHaveLength(1);
+    expect(result.files[0].filePath).toBe("mtgen-test.ts");
+    expect(result.files[0].content.trim()).toBe(getExpectedString("user.gen.ts").trim());
+    expect(result.diagnostics).toContainEqual({
+      level: "debug",
+      message: "tsreader: Schemas found: User"
+    });
+    expect(fs.existsSync("mtgen-test.ts")).toBe(false);
+  });
+
+  test("runs plugin hooks", async () => {
+    setupFolderStructure("./models", "user", true);
+
+    const result = await generate({
+      modelsPath: "./src/helpers/tests/models/user.ts",
+      project: "tsconfig.test.json",
+      output: "mtgen-test.ts",
+      "no-format": true,
+      plugins: [
+        {
+          mapType: ({ key }) => (key === "email" ? "Email" : undefined),
+          afterGenerate: ({ sourceFile, schemas }) => {
+            sourceFile.addTypeAlias({ name: "Email", type: "string", isExported: true });
+            sourceFile.addStatements(`// models: ${Object.keys(schemas).join(", ")}`);
+          }
+        }
+      ]
+    });
+
+    const { content } = result.files[0];
+    expect(content).toContain("email: Email;");
+    expect(content).toContain("export type Email = string;");
+    expect(content).toContain("// models: User");
+  });
+
+  test("maps custom SchemaTypes using `typeMappings`", async () => {
+    writeModelFile("counter", [
+      `import mongoose, { Schema } from "mongoose";`,
+      `class Long extends mongoose.SchemaType {`,
+      `  constructor(key: string, options?: any) { super(key, options, "Long"); }`,
+      `  cast(val: any) { return Number(val); }`,
+      `}`,
+      `(mongoose.Schema.Types as any).Long = Long;`,
+      `const CounterSchema = new Schema({ views: { type: Long, required: true }, history: [Long], email: "Email" });`,
+      `export const Counter = mongoose.model("Counter", CounterSchema);`
+    ]);
+    (mongoose.Schema.Types as any).Email = class Email extends mongoose.SchemaType {};
+
+    try {
+      const result = await generate({
+        modelsPath: "./src/helpers/tests/models/counter.ts",
+        project: "tsconfig.test.json",
+        output: "mtgen-test.ts",
+        "no-format": true,
+        typeMappings: {
+          Long: {
+            lean: "number",
+            document: "LongValue",
+            import: `import { LongValue } from "../types/long";`
+          },
+          Email: "string"
+        }
+      });
+
+      const { content } = result.files[0];
+      expect(content).toContain(`import { LongValue } from "../types/long";`);
+      expect(content).toMatch(/export type CounterDocument = [^]*views: LongValue;/);
+      expect(content).toMatch(/export type Counter = {[^}]*views: number;/);
+      expect(content).toMatch(/export type Counter = {[^}]*history: number\[\];/);
+      expect(content).toMatch(/export type Counter = {[^}]*email\?: string;/);
+    } finally {
+      delete (mongoose.Schema.Types as any).Long;
+      delete (mongoose.Schema.Types as any).Email;
+    }
+  });
+
+  test("generates discriminator types and unions", async () => {
+    writeModelFile("event", [
+      `import mongoose, { Schema } from "mongoose";`,
+      `const EventSchema = new Schema({ name: String }, { discriminatorKey: "kind" });`,
+      `EventSchema.methods = { describe() { return "event"; } };`,
+      `export const Event = mongoose.model("Event", EventSchema);`,
+      `const ClickEventSchema = new Schema({ element: { type: String, required: true } });`,
+      `ClickEventSchema.methods = { isButton() { return true; } };`,
+      `export const ClickEvent = Event.discriminator("ClickEvent", ClickEventSchema);`,
+      `const PurchaseEventSchema = new Schema({ amount: Number });`,
+      `const PurchaseEvent = Event.discriminator("PurchaseEvent", PurchaseEventSchema, "purchase");`
+    ]);
+
+    const { files, report } = await generate({
+      modelsPath: "./src/helpers/tests/models/event.ts",
+      project: "tsconfig.test.json",
+      output: "mtgen-test.ts"
+    });
+
+    const { content } = files[0];
+    expect(content).toMatch(/export type ClickEvent = {[^}]*element: string;[^}]*name\?: string;[^}]*kind: "ClickEvent";/);
+    expect(content).toMatch(/export type PurchaseEventDocument = [^]*kind: "purchase";/);
+    expect(content).toContain("export type ClickEventModel =");
+    expect(content).toContain(
+      "export type EventUnion = (Event & { kind?: undefined }) | ClickEvent | PurchaseEvent;"
+    );
+    expect(content).toMatch(/export type EventDocumentUnion =\s*\| \(EventDocument & { kind\?: undefined }\)\s*\| ClickEventDocument\s*\| PurchaseEventDocument;/);
+    // methods are inherited from the base model
+    expect(content).toMatch(/export type ClickEventMethods = {[^}]*isButton: \(this: ClickEventDocument\) => boolean;[^}]*describe: \(this: ClickEventDocument\) => string;/);
+    expect(report.map(({ modelName, fallbacks }) => ({ modelName, fallbacks }))).toEqual([
+      { modelName: "Event", fallbacks: [] },
+      { modelName: "ClickEvent", fallbacks: [] },
+      { modelName: "PurchaseEvent", fallbacks: [] }
+    ]);
+  });
+
+  test("generates embedded discriminator unions", async () => {
+    writeModelFile("order", [
+      `import mongoose, { Schema } from "mongoose";`,
+      `const ItemSchema = new Schema({ quantity: Number }, { discriminatorKey: "kind", _id: false });`,
+      `const ShippingSchema = new Schema({ carrier: String }, { discriminatorKey: "method" });`,
+      `const OrderSchema = new Schema({ items: [ItemSchema], shipping: ShippingSchema });`,
+      `const items = OrderSchema.path<mongoose.Schema.Types.DocumentArray>("items");`,
+      `items.discriminator("Book", new Schema({ isbn: { type: String, required: true } }));`,
+      `items.discriminator("Toy", new Schema({ minAge: Number }), "toy");`,
+      `OrderSchema.path<any>("shipping").discriminator("Pickup", new Schema({ store: String }));`,
+      `export const Order = mongoose.model("Order", OrderSchema);`
+    ]);
+
+    const { files } = await generate({
+      modelsPath: "./src/helpers/tests/models/order.ts",
+      project: "tsconfig.test.json",
+      output: "mtgen-test.ts"
+    });
+
+    const { content } = files[0];
+    expect(content).toMatch(/export type OrderItemBook = {[^}]*isbn: string;[^}]*kind: "Book";/);
+    expect(content).toMatch(/export type OrderItemToyDocument = mongoose.Types.Subdocument & {[^}]*kind: "toy";/);
+    expect(content).toContain(
+      "export type OrderItemUnion = (OrderItem & { kind?: undefined }) | OrderItemBook | OrderItemToy;"
+    );
+    expect(content).toMatch(/export type Order = {[^}]*items: OrderItemUnion\[\];[^}]*shipping\?: OrderShippingUnion;/);
+    expect(content).toContain("items: mongoose.Types.DocumentArray<OrderItemDocumentUnion>;");
+    expect(content).toContain("shipping?: OrderShippingDocumentUnion;");
+  });
+
+  test("generates recursive schemas", async () => {
+    writeModelFile("catalog", [
+      `import mongoose, { Schema } from "mongoose";`,
+      `const CategorySchema = new Schema({ title: String, data: {} });`,
+      `CategorySchema.add({ children: [CategorySchema] });`,
+      `const ASchema = new Schema({ a: String });`,
+      `const BSchema = new Schema({ b: String, as: [ASchema] });`,
+      `ASchema.add({ bs: [BSchema] });`,
+      `const CatalogSchema = new Schema({ sections: [CategorySchema], first: ASchema });`,
+      `export const Catalog = mongoose.model("Catalog", CatalogSchema);`
+    ]);
+
+    const { files, report } = await generate({
+      modelsPath: "./src/helpers/tests/models/catalog.ts",
+      project: "tsconfig.test.json",
+      output: "mtgen-test.ts"
+    });
+
+    const { content } = files[0];
+    expect(content).toMatch(/export type CatalogSection = {[^}]*children: CatalogSection\[\];/);
+    expect(content).toMatch(/export type CatalogFirstB = {[^}]*as: CatalogFirst\[\];/);
+    expect(content).toMatch(/export type CatalogFirst = {[^}]*bs: CatalogFirstB\[\];/);
+    expect(content).toMatch(
+      /export type CatalogSectionDocument = [^{]*{[^}]*children: mongoose.Types.DocumentArray<CatalogSectionDocument>;/
+    );
+    expect(report[0].fallbacks).toEqual([
+      { path: "sections.data", kind: "mixed", reason: "Mixed schema type" }
+    ]);
+  });
+
+  // model with methods & virtuals that tsReader can't resolve
+  const setupReportModel = () => {
+    writeModelFile("report", [
+      `import mongoose, { Schema } from "mongoose";`,
+      `const ReportSchema = new Schema({ data: {}, tags: [{}], meta: { type: Map, of: {} } });`,
+      `ReportSchema.method("legacy", function () { return 1; });`,
+      `ReportSchema.virtual("noop").get(function () {});`,
+      `export const Report = mongoose.model("Report", ReportSchema);`
+    ]);
+  };
+
+  test("reports fallbacks to `any`", async () => {
+    setupReportModel();
+
+    const { report } = await generate({
+      modelsPath: "./src/helpers/tests/models/report.ts",
+      project: "tsconfig.test.json",
+      "no-format": true
+    });
+
+    expect(report).toEqual([
+      {
+        modelName: "Report",
+        filePath: path.normalize("src/helpers/tests/models/report.ts"),
+        fallbacks: [
+          { path: "data", kind: "mixed", reason: "Mixed schema type" },
+          { path: "tags", kind: "mixed", reason: "Mixed schema type" },
+          { path: "meta", kind: "mixed", reason: "Mixed schema type" },
+          {
+            path: "methods.legacy",
+            kind: "method",
+            reason: "method not found by tsReader in the model file"
+          },
+          { path: "virtuals.noop", kind: "virtual", reason: "virtual return type void" }
+        ]
+      }
+    ]);
+  });
+
+  test("fails in strict mode unless fallbacks are allowed", async () => {
+    setupReportModel();
+
+    const options = {
+      modelsPath: "./src/helpers/tests/models/report.ts",
+      project: "tsconfig.test.json",
+      "no-format": true,
+      strict: true
+    };
+
+    await expect(generate(options)).rejects.toThrow(
+      /Strict mode failed with 2 issue\(s\)[\s\S]*Report\.methods\.legacy[\s\S]*Report\.virtuals\.noop/
+    );
+
+    // Mixed schema types are allowed
+    const { files } = await generate({
+      ...options,
+      strictAllow: ["Report.methods.legacy", "Report.virtuals.noop"]
+    });
+    expect(files).toHaveLength(1);
+  });
+
+  test("fails in strict mode on model files that can't be parsed unless they're allowed", async () => {
+    writeModelFile("strictHelpers", [`export const getName = () => "Widget";`]);
+    writeModelFile("strictWidget", [
+      `import mongoose, { Schema } from "mongoose";`,
+      `import { getName } from "./strictHelpers";`,
+      `export const Widget = mongoose.model(getName(), new Schema({ name: String }));`
+    ]);
+
+    const helpersPath = path.normalize("src/helpers/tests/models/strictHelpers.ts");
+    const widgetPath = path.normalize("src/helpers/tests/models/strictWidget.ts");
+    const options = {
+      modelsPath: "./src/helpers/tests/models",
+      project: "tsconfig.test.json",
+      "no-format": true,
+      strict: true
+    };
+
+    await expect(generate(options)).rejects.toThrow(
+      new Error(
+        `Strict mode failed with 2 issue(s). Fix them or add them to "strictAllow" in mtgen.config.json:\n` +
+          `  - ${helpersPath}: A module was found at ${path.resolve(
+            helpersPath
+          )}, but no new exported models were found. If this file contains a Mongoose schema, ensure it is exported and its name does not conflict with others.\n` +
+          `  - ${widgetPath}: tsreader: Could not find model name in Mongoose model initialization: mongoose.model(getName(),newSchema({name:String}))`
+      )
+    );
+
+    await expect(generate({ ...options, strictAllow: [`./${helpersPath}`] })).rejects.toThrow(
+      /Strict mode failed with 1 issue\(s\)/
+    );
+
+    const { files } = await generate({ ...options, strictAllow: [helpersPath, widgetPath] });
+    expect(files).toHaveLength(1);
+  });
+
+  test("reuses the output of unchanged model files when caching", async () => {
+    setupFolderStructure("./models", "user", true);
+
+    const options = {
+      modelsPath: "./src/helpers/tests/models/user.ts",
+      project: "tsconfig.test.json",
+      output: "mtgen-test.ts",
+      "no-format": true,
+      cache: true
+    };
+
+    try {
+      const firstResult = await generate(options);
+      expect(firstResult.diagnostics).toContainEqual({
+        level: "debug",
+        message: "cache: 0 of 1 model file(s) unchanged"
+      });
+
+      const cachedResult = await generate(options);
+      expect(cachedResult.diagnostics).toContainEqual({
+        level: "debug",
+        message: "cache: 1 of 1 model file(s) unchanged"
+      });
+      expect(cachedResult.files).toEqual(firstResult.files);
+      expect(cachedResult.report).toEqual(firstResult.report);
+
+      fs.appendFileSync(path.join(__dirname, "models/user.ts"), "\n// changed\n");
+      const changedResult = await generate(options);
+      expect(changedResult.diagnostics).toContainEqual({
+        level: "debug",
+        message: "cache: 0 of 1 model file(s) unchanged"
+      });
+    } finally {
+      cleanupCache();
+    }
+  });
+
+  test("splits output into one file per model", async () => {
+    setupFolderStructure("./models", "user", true);
+
+    const result = await generate({
+      modelsPath: "./src/helpers/tests/models/user.ts",
+      project: "tsconfig.test.json",
+      output: "mtgen-test",
+      split: true,
+      "no-format": true
+    });
+
+    expect(result.files.map(file => file.filePath)).toEqual([
+      path.normalize("mtgen-test/user.gen.ts"),
+      path.normalize("mtgen-test/helpers.gen.ts"),
+      path.normalize("mtgen-test/index.ts")
+    ]);
+
+    const [userFile, helpersFile, barrelFile] = result.files;
+    expect(userFile.content).toContain("export type UserDocument = ");
+    expect(userFile.content).not.toContain("export type PopulatedDocument");
+    expect(helpersFile.content).toContain("export type PopulatedDocument");
+    expect(barrelFile.content).toContain(`export * from "./user.gen";`);
+    expect(barrelFile.content).toContain(`export * from "./helpers.gen";`);
+  });
+});
@@ -1,5 +1,8 @@
 import * as parser from "../parser";
+import * as paths from "../paths";
+import * as tsReader from "../tsReader";
 import mongoose from "mongoose";
+import { TypeMapper } from "../../types";
 
 describe("getParseKeyFn", () => {
   test("handles untyped Array equivalents as `any[]`", () => {
@@ -46,6 +49,227 @@ describe("getParseKeyFn", () => {
     // should be required, as usual
     expect(parseKey("test2a", { type: [Number] })).toBe("test2a: number[];\n");
   });
+
+  test("uses the type mapper before the built-in conversion", () => {
+    class Email extends mongoose.SchemaType {}
+    const parseKey = parser.getParseKeyFn(false, false, false, {
+      typeMapper: ({ type }) => (type === Email ? "string" : undefined)
+    });
+
+    expect(parseKey("test1a", { type: Email, required: true })).toBe("test1a: string;\n");
+    expect(parseKey("test1b", Email)).toBe("test1b?: string;\n");
+    expect(parseKey("test1c", [Email])).toBe("test1c: string[];\n");
+    // falls back to the built-in conversion
+    expect(parseKey("test2a", { type: Number })).toBe("test2a?: number;\n");
+  });
+});
+
+describe("convertBaseTypeToTs", () => {
+  test("converts SchemaTypes added in newer mongoose versions", () => {
+    // the installed mongoose version doesn't export these SchemaTypes, so they're referenced by name
+    expect(parser.convertBaseTypeToTs("test1", { type: "UUID" }, false)).toBe("string");
+    expect(parser.convertBaseTypeToTs("test1", { type: "UUID" }, true)).toBe("mongoose.Types.UUID");
+    expect(parser.convertBaseTypeToTs("test2", { type: "BigInt" }, false)).toBe("bigint");
+    expect(parser.convertBaseTypeToTs("test2", { type: "BigInt" }, true)).toBe("bigint");
+    expect(parser.convertBaseTypeToTs("test3", { type: "Double" }, false)).toBe("number");
+    expect(parser.convertBaseTypeToTs("test3", { type: "Double" }, true)).toBe(
+      "mongoose.Types.Double"
+    );
+    expect(parser.convertBaseTypeToTs("test4", { type: "Int32" }, true)).toBe("number");
+  });
+
+  test("doesn't convert SchemaTypes missing from the installed mongoose version", () => {
+    // the global `BigInt` is only a SchemaType when mongoose exports the BigInt SchemaType
+    expect(parser.convertBaseTypeToTs("test1", { type: BigInt }, false)).toBe("{}");
+    // the constructors of missing SchemaTypes are `undefined`, which shouldn't match paths without a type
+    expect(parser.convertBaseTypeToTs("test2", { type: undefined }, false)).toBe("{}");
+  });
+});
+
+describe("parseSchema", () => {
+  test("types timestamp fields as required dates", () => {
+    const ChildSchema = new mongoose.Schema({ name: String }, { timestamps: { createdAt: "made" } });
+    const schema = new mongoose.Schema(
+      { title: String, createdAt: String, child: { type: ChildSchema, required: true } },
+      { timestamps: { createdAt: true, updatedAt: false } }
+    );
+
+    const parsed = parser.parseSchema({
+      schema,
+      modelName: "Post",
+      isDocument: false,
+      header: "type Post = {\n",
+      footer: "}",
+      shouldLeanIncludeVirtuals: false
+    });
+
+    expect(parsed).toContain("type Post = {\ntitle?: string;\ncreatedAt: Date;\n");
+    expect(parsed).not.toContain("updatedAt?");
+    expect(parsed).toMatch(/type PostChild = {[^}]*updatedAt: Date;\nmade: Date;\n/);
+
+    expect(parser.getTimestampFields(new mongoose.Schema({}, { timestamps: true }))).toEqual([
+      "createdAt",
+      "updatedAt"
+    ]);
+    expect(parser.getTimestampFields(new mongoose.Schema({}))).toEqual([]);
+  });
+
+  test("makes defaulted & generated fields optional in create inputs", () => {
+    const ItemSchema = new mongoose.Schema({ sku: { type: String, required: true } });
+    const schema = new mongoose.Schema(
+      {
+        title: { type: String, required: true },
+        status: { type: String, required: true, default: "draft" },
+        items: [ItemSchema],
+        address: { city: { type: String, required: true }, zip: String },
+        settings: { theme: String }
+      },
+      { timestamps: true }
+    );
+    schema.virtual("slug").get(() => "");
+
+    const parsed = parser.parseSchema({
+      schema,
+      modelName: "Post",
+      isDocument: false,
+      isCreateInput: true,
+      header: "type PostCreateInput = {\n",
+      footer: "}",
+      shouldLeanIncludeVirtuals: false
+    });
+
+    expect(parsed).toContain("type PostItemCreateInput = {\nsku: string;\n}");
+    expect(parsed).toContain(
+      "type PostCreateInput = {\ntitle: string;\nstatus?: string;\nitems?: PostItemCreateInput[];\n" +
+        "address: {\ncity: string;\nzip?: string;\n};\nsettings?: {\ntheme?: string;\n};\n}"
+    );
+  });
+
+  test("marks immutable paths as readonly", () => {
+    const AddressSchema = new mongoose.Schema({ city: { type: String, immutable: true }, zip: String });
+    const schema = new mongoose.Schema({
+      email: { type: String, immutable: () => true },
+      address: { type: AddressSchema, immutable: true },
+      profile: { ssn: { type: String, immutable: true } },
+      name: String
+    });
+
+    const parsed = parser.parseSchema({
+      schema,
+      modelName: "Account",
+      isDocument: true,
+      header: "type AccountDocument = {\n",
+      footer: "}",
+      shouldLeanIncludeVirtuals: false,
+      readonlyImmutable: true
+    });
+
+    expect(parsed).toMatch(/type AccountAddressDocument = [^{]*{\nreadonly city\?: string;\nzip\?: string;\n/);
+    expect(parsed).toContain(
+      "type AccountDocument = {\nreadonly email?: string;\nprofile: {\nreadonly ssn?: string;\n};\nname?: string;\n"
+    );
+    expect(parsed).toContain("readonly address?: AccountAddressDocument;\n");
+
+    const lean = parser.parseSchema({
+      schema,
+      modelName: "Account",
+      isDocument: false,
+      header: "type Account = {\n",
+      footer: "}",
+      shouldLeanIncludeVirtuals: false
+    });
+    expect(lean).not.toContain("readonly");
+  });
+
+  test("adds the aliases of paths to document types", () => {
+    const AddressSchema = new mongoose.Schema({ c: { type: String, alias: "city" } });
+    const schema = new mongoose.Schema({
+      n: { type: String, required: true, alias: "name" },
+      a: { type: AddressSchema, alias: "address" },
+      profile: { b: { type: String, alias: "bio" } }
+    });
+
+    const parseAccount = (isDocument: boolean) =>
+      parser.parseSchema({
+        schema,
+        modelName: "Account",
+        isDocument,
+        header: "type Account = {\n",
+        footer: "}",
+        shouldLeanIncludeVirtuals: false,
+        includeAliases: isDocument
+      });
+
+    const parsed = parseAccount(true);
+    expect(parsed).toMatch(/type AccountADocument = [^{]*{\nc\?: string;\ncity\?: string;\n/);
+    expect(parsed).toContain("type Account = {\nn: string;\nname: string;\nprofile: {\nb?: string;\n};\n");
+    expect(parsed).toContain("a?: AccountADocument;\naddress?: AccountADocument;\n");
+    // aliases of nested paths are declared as virtuals at the root of the schema
+    expect(parsed).toContain("bio: any;\n");
+    expect(parser.getRootAliases(schema)).toEqual({ name: "n", address: "a" });
+
+    expect(parseAccount(false)).not.toMatch(/name|address|city/);
+  });
+
+  test("references the type of recursive subdocuments", () => {
+    const CategorySchema = new mongoose.Schema({ name: String });
+    CategorySchema.add({ children: [CategorySchema], parent: CategorySchema });
+    const schema = new mongoose.Schema({ root: { type: CategorySchema, required: true } });
+
+    const parsed = parser.parseSchema({
+      schema,
+      modelName: "Shop",
+      isDocument: false,
+      header: "type Shop = {\n",
+      footer: "}",
+      shouldLeanIncludeVirtuals: false
+    });
+
+    expect(parsed).toContain(
+      "type ShopRoot = {\nname?: string;\n_id: mongoose.Types.ObjectId;\nchildren: ShopRoot[];\nparent?: ShopRoot;\n}"
+    );
+    expect(parsed).toContain("root: ShopRoot;\n}");
+  });
+
+  test("reports stack overflows while parsing subdocuments as recursive schemas", () => {
+    const parseProfile = (typeMapper: TypeMapper) => () =>
+      parser.parseSchema({
+        schema: new mongoose.Schema({ profile: new mongoose.Schema({ nickname: String }) }),
+        modelName: "Member",
+        isDocument: false,
+        header: "type Member = {\n",
+        footer: "}",
+        shouldLeanIncludeVirtuals: false,
+        typeMapper
+      });
+
+    // i.e. schemas created for each level, which aren't detected as recursive
+    const overflow = (): string => overflow();
+    expect(parseProfile(overflow)).toThrow(
+      new Error(
+        `Could not parse the path "profile" of Member: its schema recurses endlessly. Recursive paths should reference the schema itself (i.e. \`children: [CategorySchema]\`).`
+      )
+    );
+
+    // other errors are thrown as is
+    const invalidLength = (): string => {
+      throw new RangeError("Invalid array length");
+    };
+    expect(parseProfile(invalidLength)).toThrow(new RangeError("Invalid array length"));
+  });
+});
+
+describe("getDeselectedFields", () => {
+  test("lists the root fields declared with select: false", () => {
+    const schema = new mongoose.Schema({
+      email: String,
+      password: { type: String, select: false },
+      tokens: { type: [String], select: false },
+      profile: { secret: { type: String, select: false } }
+    });
+
+    expect(parser.getDeselectedFields(schema)).toEqual(["password", "tokens"]);
+  });
 });
 
 describe("convertToSingular", () => {
@@ -63,3 +287,19 @@ describe("convertToSingular", () => {
     expect(parser.convertToSingular("grass")).toBe("grass");
   });
 });
+
+describe("unloadSchemas", () => {
+  test("deregisters models exported by the unloaded files", () => {
+    const modelsPaths = paths.getModelsPaths("./src/helpers/tests/artifacts/user2.ts");
+    const cleanupTs = tsReader.registerUserTs("tsconfig.test.json");
+
+    const schemas = parser.loadSchemas(modelsPaths);
+    expect(Object.keys(schemas)).toEqual(["User2"]);
+
+    expect(parser.unloadSchemas(modelsPaths)).toEqual(["User2"]);
+    expect(mongoose.models.User2).toBeUndefined();
+    expect(mongoose.connection.models.User2).toBeUndefined();
+
+    cleanupTs?.();
+  });
+});
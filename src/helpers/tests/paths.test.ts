@@ -1,6 +1,8 @@
 import { setupFolderStructure, cleanup } from "./utils";
 import * as paths from "../paths";
 const path = require("path");
+const fs = require("fs");
+const mkdirp = require("mkdirp");
 
 // TODO: test path aliases
 
@@ -78,3 +80,90 @@ describe("cleanOutputPath", () => {
     expect(cleaned).toBe(path.normalize("/test/path/to/directory/mongoose.gen.ts"));
   });
 });
+
+describe("cleanOutputFolderPath", () => {
+  test("path pointing to directory", () => {
+    const cleaned = paths.cleanOutputFolderPath("/test/path/to/directory");
+    expect(cleaned).toBe(path.normalize("/test/path/to/directory"));
+  });
+
+  test("path pointing to file error", () => {
+    expect(() => {
+      paths.cleanOutputFolderPath("/test/path/with/index.ts");
+    }).toThrow(
+      new Error(
+        "Invalid --output argument. When splitting output into one file per model, please provide a folder path."
+      )
+    );
+  });
+});
+
+describe("getConfigFromFile", () => {
+  const configFolder = path.join(__dirname, "models");
+
+  const writeConfigFile = (fileName: string, content: string) => {
+    mkdirp.sync(configFolder);
+    fs.writeFileSync(path.join(configFolder, fileName), content);
+  };
+
+  test("no config file in current folder", () => {
+    expect(paths.getConfigFromFile()).toEqual({});
+  });
+
+  test("mtgen.config.json", () => {
+    writeConfigFile("mtgen.config.json", `{ "output": "./src/types", "no-format": true }`);
+
+    expect(paths.getConfigFromFile(configFolder)).toEqual({
+      output: "./src/types",
+      "no-format": true
+    });
+  });
+
+  test("mtgen.config.js", () => {
+    writeConfigFile("mtgen.config.js", `module.exports = { imports: ["import Stripe from 'stripe'"] };`);
+
+    expect(paths.getConfigFromFile(path.join(configFolder, "mtgen.config.js"))).toEqual({
+      imports: ["import Stripe from 'stripe'"]
+    });
+  });
+
+  test("package.json mtgen key", () => {
+    writeConfigFile("package.json", `{ "name": "test", "mtgen": { "split": true } }`);
+
+    expect(paths.getConfigFromFile(configFolder)).toEqual({ split: true });
+  });
+
+  test("package.json without mtgen key is ignored", () => {
+    writeConfigFile("package.json", `{ "name": "test" }`);
+
+    expect(() => paths.getConfigFromFile(configFolder)).toThrow(
+      new Error(`No mtgen config file found in folder "${configFolder}".`)
+    );
+  });
+
+  test("unknown and mistyped keys error", () => {
+    writeConfigFile(
+      "mtgen.config.json",
+      `{ "outptu": "./src/types", "projects": [{ "name": "api", "imports": "import Stripe from 'stripe'" }] }`
+    );
+
+    const configPath = path.join(configFolder, "mtgen.config.json");
+    expect(() => paths.getConfigFromFile(configPath)).toThrow(
+      new Error(
+        `Invalid mongoose-tsgen config in ${configPath}:\n` +
+          `  - "projects[0].imports" must be array\n` +
+          `  - Unknown key "outptu"`
+      )
+    );
+  });
+
+  test("invalid config filename error", () => {
+    writeConfigFile("config.json", `{}`);
+
+    expect(() => paths.getConfigFromFile(path.join(configFolder, "config.json"))).toThrow(
+      new Error(
+        "config.json is not a valid config filename. Ensure to provide a path to a mtgen.config.json, mtgen.config.js, mtgen.config.cjs, mtgen.config.ts or package.json file, or its parent folder."
+      )
+    );
+  });
+});
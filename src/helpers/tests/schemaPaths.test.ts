@@ -0,0 +1,124 @@
+import * as schemaPaths from "../schemaPaths";
+import mongoose from "mongoose";
+
+const ItemSchema = new mongoose.Schema({ sku: String, quantity: Number });
+const OrderSchema = new mongoose.Schema(
+  {
+    status: { type: String, enum: ["pending", "shipped"] },
+    total: Number,
+    tags: [String],
+    items: [ItemSchema],
+    address: { city: String }
+  },
+  { timestamps: true }
+);
+
+describe("getSchemaPaths", () => {
+  test("lists every path, typed using the lean type", () => {
+    const paths = schemaPaths.getSchemaPaths({ schema: OrderSchema, modelName: "Order" });
+
+    expect(paths.map(({ path }) => path)).toEqual([
+      "status",
+      "total",
+      "tags",
+      "items",
+      "items.sku",
+      "items.quantity",
+      "items._id",
+      "address",
+      "address.city",
+      "_id",
+      "updatedAt",
+      "createdAt"
+    ]);
+    expect(paths.find(({ path }) => path === "items.quantity")).toEqual({
+      path: "items.quantity",
+      type: `NonNullable<Order["items"]>[number]["quantity"]`,
+      kind: "number",
+      isNested: false
+    });
+    expect(paths.find(({ path }) => path === "tags")).toMatchObject({
+      elementType: `NonNullable<Order["tags"]>[number]`,
+      kind: "string"
+    });
+  });
+
+  test("lists positional paths of array elements", () => {
+    const paths = schemaPaths.getSchemaPaths({
+      schema: OrderSchema,
+      modelName: "Order",
+      isCreateInput: true,
+      positional: true
+    });
+
+    expect(paths.map(({ path }) => path)).toEqual([
+      "status",
+      "total",
+      "tags",
+      "tags.$",
+      "tags.$[]",
+      "items",
+      "items.$",
+      "items.$[]",
+      "items.$.sku",
+      "items.$[].sku",
+      "items.$.quantity",
+      "items.$[].quantity",
+      "address",
+      "address.city"
+    ]);
+    expect(paths[0].type).toBe(`OrderCreateInput["status"]`);
+  });
+});
+
+describe("getUpdateType", () => {
+  test("types update operators with the paths they apply to", () => {
+    const updateType = schemaPaths.getUpdateType("Order", OrderSchema);
+
+    expect(updateType).toContain(`export type OrderUpdateValues = {\n"status": OrderCreateInput["status"];\n`);
+    expect(updateType).toContain(
+      `$inc?: {\n"total"?: NonNullable<OrderCreateInput["total"]>;\n` +
+        `"items.$.quantity"?: NonNullable<NonNullable<OrderCreateInput["items"]>[number]["quantity"]>;\n`
+    );
+    expect(updateType).toContain(
+      `export type OrderUpdateArrayElements = {\n"tags": NonNullable<OrderCreateInput["tags"]>[number];\n` +
+        `"items": NonNullable<OrderCreateInput["items"]>[number];\n}`
+    );
+  });
+});
+
+describe("getFilterType", () => {
+  test("groups paths accepting the same operators", () => {
+    const filterType = schemaPaths.getFilterType("Order", OrderSchema);
+
+    expect(filterType).toContain(`"items.quantity": NonNullable<Order["items"]>[number]["quantity"];\n`);
+    expect(filterType).toContain(`"tags": NonNullable<Order["tags"]>[number];\n`);
+    expect(filterType).toContain(
+      `[path in "total" | "items.quantity" | "updatedAt" | "createdAt"]?: OrderFilterValues[path] | {`
+    );
+    expect(filterType).toMatch(/\[path in "status" \| "items.sku" \| "address.city"\]\?: [^\n]*\$regex/);
+    expect(filterType).toMatch(/\[path in "tags"\]\?: [^\n]*\$elemMatch/);
+    // subdocument arrays get the filter type of their subdocuments for `$elemMatch`
+    expect(filterType).toContain(`export type OrderItemFilter = {\n[path in "sku"]?: OrderItemFilterValues[path]`);
+    expect(filterType).toMatch(/\[path in "items"\]\?: [^\n]*\$elemMatch\?: OrderItemFilter;/);
+    // `$not` negates the operators of the path
+    expect(filterType).toContain(
+      `$exists?: boolean; $not?: { $eq?: OrderFilterValues[path]; $ne?: OrderFilterValues[path]; $in?: OrderFilterValues[path][]; $nin?: OrderFilterValues[path][]; $gt?: OrderFilterValues[path]; $gte?: OrderFilterValues[path]; $lt?: OrderFilterValues[path]; $lte?: OrderFilterValues[path]; $exists?: boolean } };`
+    );
+    expect(filterType).toMatch(/\[path in "status" [^\n]*\$not\?: RegExp \| \{ \$eq/);
+    expect(filterType).toContain("$or?: OrderFilter[];\n");
+  });
+});
+
+describe("getPathsTypes", () => {
+  test("builds the sort & projection types on the union of paths", () => {
+    const pathsTypes = schemaPaths.getPathsTypes("Order", OrderSchema);
+
+    expect(pathsTypes).toContain(
+      `export type OrderPaths = "status" | "total" | "tags" | "items" | "items.sku" | "items.quantity" | ` +
+        `"items._id" | "address" | "address.city" | "_id" | "updatedAt" | "createdAt"\n`
+    );
+    expect(pathsTypes).toContain("export type OrderSort = { [path in OrderPaths]?: 1 | -1 |");
+    expect(pathsTypes).toContain("export type OrderProjection = { [path in OrderPaths]?: 0 | 1 | boolean }");
+  });
+});
@@ -0,0 +1,28 @@
+import mongoose from "mongoose";
+
+// the parser reads the constructors of SchemaTypes added in newer mongoose versions when it's loaded, so these tests
+// register them on the installed mongoose version before loading it, apart from the other parser tests
+const SchemaTypes: any = mongoose.Schema.Types;
+SchemaTypes.UUID = class UUID extends mongoose.SchemaType {};
+SchemaTypes.BigInt = class BigInt extends mongoose.SchemaType {};
+SchemaTypes.Double = class Double extends mongoose.SchemaType {};
+
+let parser: typeof import("../parser");
+beforeAll(async () => {
+  parser = await import("../parser");
+});
+
+describe("convertBaseTypeToTs", () => {
+  test("converts the constructors of SchemaTypes exported by newer mongoose versions", () => {
+    const convert = (type: unknown, isDocument: boolean) =>
+      parser.convertBaseTypeToTs("test", { type }, isDocument);
+
+    expect(convert(SchemaTypes.UUID, false)).toBe("string");
+    expect(convert(SchemaTypes.UUID, true)).toBe("mongoose.Types.UUID");
+    expect(convert(SchemaTypes.Double, false)).toBe("number");
+    expect(convert(SchemaTypes.Double, true)).toBe("mongoose.Types.Double");
+    expect(convert(SchemaTypes.BigInt, true)).toBe("bigint");
+    // mongoose accepts the global `BigInt` once it exports the BigInt SchemaType
+    expect(convert(BigInt, false)).toBe("bigint");
+  });
+});
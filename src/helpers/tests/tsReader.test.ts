@@ -0,0 +1,34 @@
+import { cleanup } from "./utils";
+import * as tsReader from "../tsReader";
+const path = require("path");
+const fs = require("fs");
+const mkdirp = require("mkdirp");
+const tsConfigPaths = require("tsconfig-paths");
+
+beforeEach(cleanup);
+afterAll(cleanup);
+
+describe("registerUserTs", () => {
+  test("resolves path aliases from the baseUrl of the tsconfig", () => {
+    // i.e. a package of a monorepo, whose tsconfig isn't in the current working directory
+    const projectFolder = path.join(__dirname, "dist/api");
+    mkdirp.sync(projectFolder);
+    fs.writeFileSync(
+      path.join(projectFolder, "tsconfig.json"),
+      `{ "compilerOptions": { "baseUrl": "./src", "paths": { "@models/*": ["models/*"] } } }`
+    );
+
+    const register = jest.spyOn(tsConfigPaths, "register");
+    try {
+      const cleanupTs = tsReader.registerUserTs("./src/helpers/tests/dist/api/tsconfig.json");
+      cleanupTs?.();
+
+      expect(register).toHaveBeenCalledWith({
+        baseUrl: path.join(projectFolder, "src"),
+        paths: { "@models/*": ["models/*"] }
+      });
+    } finally {
+      register.mockRestore();
+    }
+  });
+});
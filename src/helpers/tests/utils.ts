@@ -3,6 +3,8 @@ const mkdirp = require("mkdirp");
 const fs = require("fs");
 const path = require("path");
 
+import { CACHE_FOLDER_PATH } from "../cache";
+
 export const setupFolderStructure = (
   relPath: string,
   model: "device" | "user",
@@ -19,10 +21,21 @@ export const setupFolderStructure = (
     );
 };
 
+// writes a model file to the `models` folder, one line per statement
+export const writeModelFile = (name: string, lines: string[]) => {
+  const modelsFolder = path.join(__dirname, "models");
+  mkdirp.sync(modelsFolder);
+  fs.writeFileSync(path.join(modelsFolder, `${name}.ts`), lines.join("\n"));
+};
+
 export const cleanupFolderStructure = (relBasePath: string) => {
   rimraf.sync(path.join(__dirname, relBasePath));
 };
 
+export const cleanupCache = () => {
+  rimraf.sync(path.join(process.cwd(), CACHE_FOLDER_PATH));
+};
+
 export const cleanup = () => {
   cleanupFolderStructure("dist");
   cleanupFolderStructure("lib");
@@ -12,7 +12,7 @@ import glob from "glob";
 import path from "path";
 import * as fs from "fs";
 import stripJsonComments from "strip-json-comments";
-import { ModelTypes } from "../types";
+import { Diagnostic, ModelTypes } from "../types";
 
 function getNameAndType(funcDeclaration: MethodDeclaration) {
   const name = funcDeclaration.getName();
@@ -98,7 +98,11 @@ function findCommentsInFile(
   return modelTypes;
 }
 
-function findTypesInFile(sourceFile: SourceFile, modelTypes: ModelTypes) {
+function findTypesInFile(
+  sourceFile: SourceFile,
+  modelTypes: ModelTypes,
+  diagnostics: Diagnostic[]
+) {
   const schemaModelMapping: {
     [schemaVariableName: string]: string;
   } = {};
@@ -203,16 +207,18 @@ function findTypesInFile(sourceFile: SourceFile, modelTypes: ModelTypes) {
         ?.getText();
 
       if (schemaVariableName) {
-        if (process.env.DEBUG)
-          console.log("tsreader: Found virtual on schema: " + schemaVariableName);
+        diagnostics.push({
+          level: "debug",
+          message: "tsreader: Found virtual on schema: " + schemaVariableName
+        });
       } else continue;
 
       const modelName = schemaModelMapping[schemaVariableName];
       if (!modelName) {
-        if (process.env.DEBUG)
-          console.warn(
-            "tsreader: Associated model name not found for schema: " + schemaVariableName
-          );
+        diagnostics.push({
+          level: "debug",
+          message: "tsreader: Associated model name not found for schema: " + schemaVariableName
+        });
         continue;
       }
 
@@ -228,21 +234,18 @@ function findTypesInFile(sourceFile: SourceFile, modelTypes: ModelTypes) {
       if (propAccessExpr2?.getName() !== "virtual") continue;
 
       const virtualName = stringLiteral?.getText();
-      let returnType = type?.split("=> ")?.[1];
+      const returnType = type?.split("=> ")?.[1];
       if (!returnType || !virtualName) {
-        if (process.env.DEBUG)
-          console.warn("tsreader: virtualName or returnType not found: ", {
-            virtualName,
-            returnType
-          });
+        diagnostics.push({
+          level: "debug",
+          message:
+            "tsreader: virtualName or returnType not found: " +
+            JSON.stringify({ virtualName, returnType })
+        });
         continue;
       }
 
-      /**
-       * @experimental trying this out since certain virtual types are indeterminable and get set to void, which creates incorrect TS errors
-       * This should be a fine workaround because virtual properties shouldn't return solely `void`, they return real values.
-       */
-      if (returnType === "void") returnType = "any";
+      // `void` return types are replaced with `any` when generating, see `replaceModelTypes`
       const virtualNameSanitized = virtualName.slice(1, virtualName.length - 1);
 
       modelTypes[modelName].virtuals[virtualNameSanitized] = returnType;
@@ -252,26 +255,40 @@ function findTypesInFile(sourceFile: SourceFile, modelTypes: ModelTypes) {
   return modelTypes;
 }
 
+// discriminators, i.e. `Event.discriminator("ClickEvent", ClickEventSchema)`
+const DISCRIMINATOR_INIT_PATTERN = /^(\w+)\.discriminator(?:<[\w,]+>)?\(["'`](\w+)["'`],(\w+)(?:,[^)]*)?\)$/;
+
 const parseModelInitializer = (
   d: VariableDeclaration | ExportAssignment,
-  isModelNamedImport: boolean
+  isModelNamedImport: boolean,
+  diagnostics: Diagnostic[]
 ) => {
   const callExpr = d.getFirstChildByKind(SyntaxKind.CallExpression);
   if (!callExpr) return undefined;
 
   const callExprStr = callExpr.getText().replace(/[\r\n\t ]/g, "");
 
+  const discriminatorInitMatch = callExprStr.match(DISCRIMINATOR_INIT_PATTERN);
+  if (discriminatorInitMatch) {
+    const [, baseModelVariableName, modelName, schemaVariableName] = discriminatorInitMatch;
+    return { modelName, schemaVariableName, baseModelVariableName };
+  }
+
   // if model is a named import, we can match this without `mongoose.` prefix
   const pattern = isModelNamedImport ?
     /model(?:<\w+,\w+(?:,\w+)?>)?\(["'`](\w+)["'`],(\w+),?\)/ :
     /mongoose\.model(?:<\w+,\w+(?:,\w+)?>)?\(["'`](\w+)["'`],(\w+),?\)/;
   const modelInitMatch = callExprStr.match(pattern);
   if (!modelInitMatch) {
-    if (process.env.DEBUG) {
-      console.warn(
-        `tsreader: Could not find model name in Mongoose model initialization: ${callExprStr}`
-      );
-    }
+    // only model initializations fail `strict` mode, other exported function calls are expected in model files
+    const isModelInit = /\bmodel[<(]/.test(callExprStr);
+    diagnostics.push({
+      level: "debug",
+      message: `tsreader: Could not find model name in Mongoose model initialization: ${callExprStr}`,
+      strictId: isModelInit ?
+        path.relative(process.cwd(), d.getSourceFile().getFilePath()) :
+        undefined
+    });
     return undefined;
   }
 
@@ -279,8 +296,11 @@ const parseModelInitializer = (
   return { modelName, schemaVariableName };
 };
 
-function initModelTypes(sourceFile: SourceFile, filePath: string) {
-  if (process.env.DEBUG) console.log("tsreader: Searching file for Mongoose schemas: " + filePath);
+function initModelTypes(sourceFile: SourceFile, filePath: string, diagnostics: Diagnostic[]) {
+  diagnostics.push({
+    level: "debug",
+    message: "tsreader: Searching file for Mongoose schemas: " + filePath
+  });
 
   const modelTypes: ModelTypes = {};
   const mongooseImport = sourceFile.getImportDeclaration("mongoose");
@@ -290,13 +310,21 @@ function initModelTypes(sourceFile: SourceFile, filePath: string) {
     if (importSpecifier.getText() === "model") isModelNamedImport = true;
   });
 
+  const baseModelVariableNames: { [modelName: string]: string } = {};
+
   sourceFile.getVariableDeclarations().forEach(d => {
-    if (!d.hasExportKeyword()) return;
+    // discriminators are found through their base model, so they don't need to be exported
+    const isDiscriminatorInit = DISCRIMINATOR_INIT_PATTERN.test(
+      d.getInitializer()?.getText().replace(/[\r\n\t ]/g, "") ?? ""
+    );
+    if (!d.hasExportKeyword() && !isDiscriminatorInit) return;
 
-    const { modelName, schemaVariableName } = parseModelInitializer(d, isModelNamedImport) ?? {};
+    const { modelName, schemaVariableName, baseModelVariableName } =
+      parseModelInitializer(d, isModelNamedImport, diagnostics) ?? {};
     if (!modelName || !schemaVariableName) return;
 
     const modelVariableName = d.getName();
+    if (baseModelVariableName) baseModelVariableNames[modelName] = baseModelVariableName;
 
     modelTypes[modelName] = {
       schemaVariableName,
@@ -312,7 +340,11 @@ function initModelTypes(sourceFile: SourceFile, filePath: string) {
 
   const defaultExportAssignment = sourceFile.getExportAssignment(d => !d.isExportEquals());
   if (defaultExportAssignment) {
-    const defaultModelInit = parseModelInitializer(defaultExportAssignment, isModelNamedImport);
+    const defaultModelInit = parseModelInitializer(
+      defaultExportAssignment,
+      isModelNamedImport,
+      diagnostics
+    );
     if (defaultModelInit) {
       modelTypes[defaultModelInit.modelName] = {
         schemaVariableName: defaultModelInit.schemaVariableName,
@@ -326,21 +358,56 @@ function initModelTypes(sourceFile: SourceFile, filePath: string) {
     }
   }
 
-  if (process.env.DEBUG) {
-    const schemaNames = Object.keys(modelTypes);
-    if (schemaNames.length === 0)
-      console.warn(
-        `tsreader: No schema found in file. If a schema exists & is exported, it will still be typed but will use generic types for methods, statics, queries & virtuals`
-      );
-    else console.log("tsreader: Schemas found: " + schemaNames);
-  }
+  // only base models declared in the same file can be resolved
+  Object.keys(baseModelVariableNames).forEach(modelName => {
+    modelTypes[modelName].baseModelName = Object.keys(modelTypes).find(
+      baseModelName =>
+        modelTypes[baseModelName].modelVariableName === baseModelVariableNames[modelName]
+    );
+  });
+
+  const schemaNames = Object.keys(modelTypes);
+  diagnostics.push({
+    level: "debug",
+    message:
+      schemaNames.length === 0 ?
+        `tsreader: No schema found in file. If a schema exists & is exported, it will still be typed but will use generic types for methods, statics, queries & virtuals` :
+        "tsreader: Schemas found: " + schemaNames
+  });
 
   return modelTypes;
 }
 
-export const getModelTypes = (modelsPaths: string[], maxCommentDepth = 2): ModelTypes => {
-  const project = new Project({});
-  project.addSourceFilesAtPaths(modelsPaths);
+// discriminators inherit the methods, statics, query helpers & virtuals of their base model
+const inheritBaseModelTypes = (modelTypes: ModelTypes) => {
+  Object.values(modelTypes).forEach(types => {
+    const baseTypes = types.baseModelName ? modelTypes[types.baseModelName] : undefined;
+    if (!baseTypes) return;
+
+    types.methods = { ...baseTypes.methods, ...types.methods };
+    types.statics = { ...baseTypes.statics, ...types.statics };
+    types.query = { ...baseTypes.query, ...types.query };
+    types.virtuals = { ...baseTypes.virtuals, ...types.virtuals };
+  });
+
+  return modelTypes;
+};
+
+export const createProject = () => new Project({});
+
+// Pass an existing `project` to reuse it across calls (i.e. in watch mode). Files already added to it are
+// refreshed from the file system before parsing.
+export const getModelTypes = (
+  modelsPaths: string[],
+  maxCommentDepth = 2,
+  project = createProject(),
+  diagnostics: Diagnostic[] = []
+): ModelTypes => {
+  modelsPaths.forEach(modelPath => {
+    const existingSourceFile = project.getSourceFile(modelPath);
+    if (existingSourceFile) existingSourceFile.refreshFromFileSystemSync();
+    else project.addSourceFileAtPath(modelPath);
+  });
 
   let allModelTypes: ModelTypes = {};
 
@@ -348,9 +415,10 @@ export const getModelTypes = (modelsPaths: string[], maxCommentDepth = 2): Model
   // Would save a lot of time
   modelsPaths.forEach(modelPath => {
     const sourceFile = project.getSourceFileOrThrow(modelPath);
-    let modelTypes = initModelTypes(sourceFile, modelPath);
+    let modelTypes = initModelTypes(sourceFile, modelPath, diagnostics);
 
-    modelTypes = findTypesInFile(sourceFile, modelTypes);
+    modelTypes = findTypesInFile(sourceFile, modelTypes, diagnostics);
+    modelTypes = inheritBaseModelTypes(modelTypes);
     modelTypes = findCommentsInFile(sourceFile, modelTypes, maxCommentDepth);
 
     allModelTypes = {
@@ -362,7 +430,11 @@ export const getModelTypes = (modelsPaths: string[], maxCommentDepth = 2): Model
   return allModelTypes;
 };
 
-export const registerUserTs = (basePath: string): (() => void) | null => {
+// ts-node only needs to be registered once per tsconfig, even when generating multiple projects
+const registeredTsConfigPaths = new Set<string>();
+
+// returns the path of the tsconfig.json file at `basePath`, or the single tsconfig.json file found in its sub-folders
+export const findTsConfig = (basePath: string) => {
   let pathToSearch: string;
   if (basePath.endsWith(".json")) pathToSearch = basePath;
   else pathToSearch = path.join(basePath, "**/tsconfig.json");
@@ -375,8 +447,15 @@ export const registerUserTs = (basePath: string): (() => void) | null => {
       `Multiple tsconfig.json files found. Please specify a more specific --project value.\nPaths found: ${files}`
     );
 
-  const foundPath = path.join(process.cwd(), files[0]);
-  require("ts-node").register({ transpileOnly: true, project: foundPath });
+  return files[0];
+};
+
+export const registerUserTs = (basePath: string): (() => void) | null => {
+  const foundPath = path.join(process.cwd(), findTsConfig(basePath));
+  if (!registeredTsConfigPaths.has(foundPath)) {
+    require("ts-node").register({ transpileOnly: true, project: foundPath });
+    registeredTsConfigPaths.add(foundPath);
+  }
 
   // handle path aliases
   const tsConfigString = fs.readFileSync(foundPath, "utf8");
@@ -384,8 +463,10 @@ export const registerUserTs = (basePath: string): (() => void) | null => {
   try {
     const tsConfig = JSON.parse(stripJsonComments(tsConfigString));
     if (tsConfig?.compilerOptions?.paths) {
+      // paths are resolved relative to the tsconfig's baseUrl, which itself is relative to the tsconfig's folder.
+      // In monorepos this is not necessarily the current working directory
       const cleanup = require("tsconfig-paths").register({
-        baseUrl: process.cwd(),
+        baseUrl: path.resolve(path.dirname(foundPath), tsConfig.compilerOptions.baseUrl ?? "."),
         paths: tsConfig.compilerOptions.paths
       });
 
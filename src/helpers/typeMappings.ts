@@ -0,0 +1,40 @@
+import _ from "lodash";
+
+import { MtgenPlugin, TypeMappings } from "../types";
+
+// custom SchemaTypes are usually classes extending `mongoose.SchemaType`, but schemas can also reference them by name
+const getSchemaTypeNames = (type: any): string[] => {
+  if (typeof type === "string") return [type];
+  if (typeof type !== "function") return [];
+
+  return [type.schemaName, type.name].filter(name => typeof name === "string");
+};
+
+// Returns the import statements needed by the mapped types, to be added to the output file(s)
+export const getTypeMappingsImports = (typeMappings: TypeMappings = {}) =>
+  _.uniq(
+    _.flatMap(Object.values(typeMappings), mapping =>
+      typeof mapping === "string" || !mapping.import ? [] : _.castArray(mapping.import)
+    )
+  );
+
+// Converts the `typeMappings` setting into a plugin, so that it is consulted like any other `mapType` hook before the
+// built-in conversion. Returns `undefined` if there are no mappings.
+export const createTypeMappingsPlugin = (typeMappings: TypeMappings = {}): MtgenPlugin | undefined => {
+  if (Object.keys(typeMappings).length === 0) return undefined;
+
+  return {
+    name: "typeMappings",
+    mapType: ({ type, isDocument }) => {
+      const schemaTypeName = getSchemaTypeNames(type).find(name =>
+        Object.prototype.hasOwnProperty.call(typeMappings, name)
+      );
+      if (!schemaTypeName) return undefined;
+
+      const mapping = typeMappings[schemaTypeName];
+      if (typeof mapping === "string") return mapping;
+
+      return isDocument ? mapping.document ?? mapping.lean : mapping.lean;
+    }
+  };
+};
@@ -0,0 +1,47 @@
+import fs from "fs";
+import path from "path";
+
+// Watch a list of files and call `onChange` with the paths that changed. Changes are debounced so that editors
+// writing a file in multiple steps only trigger a single call, and calls are queued so they never overlap.
+// Parent folders are watched rather than the files themselves, since many editors save by replacing the file
+// (which would silently stop a watcher attached to the original file).
+// Returns a function that stops watching.
+export const watchFiles = (
+  filePaths: string[],
+  onChange: (changedPaths: string[]) => Promise<void> | void,
+  debounceMs = 100
+) => {
+  const watchedPaths = new Set(filePaths.map(filePath => path.resolve(filePath)));
+  const folderPaths = new Set([...watchedPaths].map(filePath => path.dirname(filePath)));
+
+  const pendingPaths = new Set<string>();
+  let timeout: NodeJS.Timeout | undefined;
+  let queue: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    timeout = undefined;
+
+    const changedPaths = [...pendingPaths];
+    pendingPaths.clear();
+
+    queue = queue.then(() => onChange(changedPaths));
+  };
+
+  const watchers = [...folderPaths].map(folderPath =>
+    fs.watch(folderPath, (_event, filename) => {
+      if (!filename) return;
+
+      const filePath = path.join(folderPath, filename.toString());
+      if (!watchedPaths.has(filePath)) return;
+
+      pendingPaths.add(filePath);
+      if (timeout) clearTimeout(timeout);
+      timeout = setTimeout(flush, debounceMs);
+    })
+  );
+
+  return () => {
+    if (timeout) clearTimeout(timeout);
+    watchers.forEach(w => w.close());
+  };
+};
@@ -1,3 +1,6 @@
+import mongoose from "mongoose";
+import { SourceFile } from "ts-morph";
+
 /**
  * Contains information parsed from ts-morph about various types for each model
  */
@@ -13,6 +16,8 @@ export type ModelTypes = {
     virtuals: { [virtualName: string]: string };
     schemaVariableName?: string;
     modelVariableName?: string;
+    /** for discriminators, the name of the base model if it is declared in the same file */
+    baseModelName?: string;
     filePath: string;
     /** comments found in the mongoose schema */
     comments: {
@@ -21,3 +26,151 @@ export type ModelTypes = {
     }[];
   };
 };
+
+/**
+ * A message produced during generation. The CLI prints these, the programmatic API returns them.
+ */
+export type Diagnostic = {
+  /** `debug` diagnostics are only printed by the CLI when the `--debug` flag is passed */
+  level: "debug" | "info" | "warning";
+  message: string;
+  /** Set when the diagnostic fails generation in `strict` mode. Identifies the item for the `strictAllow` setting (i.e. the model file path). */
+  strictId?: string;
+};
+
+/**
+ * Options accepted by `generate`. These mirror the CLI flags and `mtgen.config.json` settings.
+ */
+export type GenerateOptions = {
+  /** Path of the models folder or a single model file (the CLI's `MODEL_PATH` argument). If left blank, all sub-directories will be searched for `models/*.ts`. */
+  modelsPath?: string;
+  /** Path of the output file, or its folder. Defaults to `./src/interfaces` */
+  output?: string;
+  /** Path of `tsconfig.json` or its root folder. Defaults to `./` */
+  project?: string;
+  /** Custom import statements to add to the output file */
+  imports?: string[];
+  /** Disable formatting the output with prettier */
+  "no-format"?: boolean;
+  /** Don't generate types that reference mongoose (i.e. documents). Replace ObjectId with string. */
+  "no-mongoose"?: boolean;
+  /** Disable augmenting mongoose with Query.populate overloads */
+  "no-populate-overload"?: boolean;
+  /** Generate one file per model in the `output` folder, along with a shared helpers file and an `index.ts` barrel file */
+  split?: boolean;
+  /** Cache the output of each model file in `node_modules/.cache/mongoose-tsgen`, so that only model files that changed since the last run are loaded again */
+  cache?: boolean;
+  /** Fail generation when a model file has no models, a model initialization can't be parsed, or a method, static, query helper or virtual falls back to `any` */
+  strict?: boolean;
+  /** Items ignored by `strict`: model file paths, or `<ModelName>.<path>` as listed by the report (i.e. `User.methods.legacy`) */
+  strictAllow?: string[];
+  /** TS types of custom SchemaTypes (i.e. from `mongoose-long`), keyed by SchemaType name (constructors aren't supported). Used before the built-in conversion. */
+  typeMappings?: TypeMappings;
+  /** Also mark `immutable` paths as `readonly` in lean types. They're always `readonly` in document types. */
+  readonlyLean?: boolean;
+  /** Plugins to run during generation. Strings are resolved as modules from the current working directory. */
+  plugins?: (string | MtgenPlugin)[];
+};
+
+/**
+ * The TS types generated for a custom SchemaType. A string is used for both lean & document types.
+ */
+export type TypeMapping =
+  | string
+  | {
+      /** Type used in lean objects (and when using `no-mongoose`) */
+      lean: string;
+      /** Type used in documents. Defaults to `lean`. */
+      document?: string;
+      /** Import statement(s) needed by the types, added to the output file(s) */
+      import?: string | string[];
+    };
+
+/**
+ * Keyed by the SchemaType's name: the name of its class (i.e. `Long`), its `schemaName`, or the string used as `type`.
+ * Only names are supported, so SchemaTypes sharing a name share a mapping. Use a plugin's `mapType` to match constructors.
+ */
+export type TypeMappings = { [schemaTypeName: string]: TypeMapping };
+
+export type GeneratedFile = {
+  /** Path the generated file should be written to */
+  filePath: string;
+  /** Generated source text */
+  content: string;
+};
+
+/**
+ * A member of the generated types that fell back to `any`
+ */
+export type Fallback = {
+  /** Path of the member in its model, i.e. `metadata`, `methods.isMetadataString` or `virtuals.name` */
+  path: string;
+  kind: "mixed" | "method" | "static" | "query" | "virtual";
+  /** Why the generator couldn't determine a type */
+  reason: string;
+};
+
+/**
+ * Every fallback to `any` in the generated types of a model
+ */
+export type ModelReport = {
+  modelName: string;
+  /** Path of the file the model was loaded from */
+  filePath: string;
+  fallbacks: Fallback[];
+};
+
+/**
+ * The output of `generate`
+ */
+export type GenerateResult = {
+  /** A single file, or one file per model (plus helper and barrel files) when using the `split` option */
+  files: GeneratedFile[];
+  diagnostics: Diagnostic[];
+  /** One entry per model, listing where the generated types fell back to `any` */
+  report: ModelReport[];
+};
+
+/**
+ * Passed to a plugin's `mapType` hook for each schema path the generator converts to a TS type
+ */
+export type TypeMapperContext = {
+  /** Name of the schema path being converted */
+  key: string;
+  /** The schema type, i.e. `String` or a custom SchemaType class. For maps, this is the type of the map values. */
+  type: any;
+  /** The full schema path definition, including options such as `enum` */
+  definition: any;
+  /** Whether the type is generated for a document (`true`) or a lean object (`false`) */
+  isDocument: boolean;
+  noMongoose: boolean;
+};
+
+/**
+ * Returns the TS type of a schema path, or `undefined` to fall back to the built-in conversion
+ */
+export type TypeMapper = (context: TypeMapperContext) => string | undefined;
+
+/**
+ * Passed to a plugin's `afterGenerate` hook for each generated file
+ */
+export type AfterGenerateContext = {
+  /** The generated file, after the model types (methods, statics, etc.) have been replaced */
+  sourceFile: SourceFile;
+  /** Schemas of the models generated in this file */
+  schemas: { [modelName: string]: mongoose.Schema };
+  modelTypes: ModelTypes;
+  noMongoose: boolean;
+};
+
+/**
+ * A plugin customizing the generated typings, exported by a module listed in the `plugins` config setting
+ */
+export type MtgenPlugin = {
+  /** Used in diagnostics and error messages */
+  name?: string;
+  /** Map schema types the generator doesn't know about (i.e. custom SchemaTypes) to TS types */
+  mapType?: TypeMapper;
+  /** Add or rewrite declarations in a generated file */
+  afterGenerate?: (context: AfterGenerateContext) => void;
+};